@@ -0,0 +1,82 @@
+// AI-CoDirector — batch of takes for one intended emotion: progress, sortable ranking and report export.
+
+import React, { useState } from "react";
+import { BatchItem, BatchSort, BatchSortKey, compareRank, downloadReport, rankItems } from "../lib/batch";
+import { confidencePct } from "../lib/recommendations";
+
+const COLUMNS: { key: BatchSortKey; label: string }[] = [
+  { key: 'rank', label: '#' },
+  { key: 'name', label: 'Take' },
+  { key: 'predicted', label: 'Predicted' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'match', label: 'Match' },
+  { key: 'status', label: 'Status' },
+];
+
+export function BatchQueue({ items, intended, running, selectedId, onSelect, onRetry, onRemove }:{ items:BatchItem[]; intended:string; running:boolean; selectedId?:string; onSelect:(item:BatchItem)=>void; onRetry:(item:BatchItem)=>void; onRemove:(item:BatchItem)=>void }){
+  const [sort, setSort] = useState<BatchSort>({ key: 'rank', dir: 'asc' });
+  const ranks = new Map(items.filter((i)=> i.result).sort(compareRank).map((i, n)=> [i.id, n + 1]));
+  const rows = rankItems(items, sort);
+  const count = (s: BatchItem['status'])=> items.filter((i)=> i.status === s).length;
+  const finished = count('done') + count('error') + count('skipped');
+  const toggle = (key: BatchSortKey)=> setSort((s)=> s.key === key ? { key, dir: s.dir === 'asc' ? 'desc' : 'asc' } : { key, dir: key === 'confidence' || key === 'match' ? 'desc' : 'asc' });
+  const link = 'text-xs underline disabled:opacity-40 text-muted';
+
+  if (!items.length) return (
+    <div className="flex flex-col items-center justify-center h-80 text-center text-faint p-6 mt-4 rounded-md bg-well border border-line">
+      <div className="text-2xl font-semibold">No takes queued</div>
+      <div className="mt-2 text-sm">Drop a folder or several clips for the same intended emotion to rank them.</div>
+    </div>
+  );
+
+  return (
+    <div className="mt-4">
+      <div className="h-2 rounded-full overflow-hidden bg-track">
+        <div className="h-full bg-gradient-to-r from-accent to-accent-2 transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-faint">
+        <span>{finished} / {items.length} finished</span>
+        {count('uploading') > 0 && <span>{count('uploading')} uploading</span>}
+        {count('error') > 0 && <span className="text-rose-400">{count('error')} failed</span>}
+        {count('skipped') > 0 && <span>{count('skipped')} skipped</span>}
+        <span className="ml-auto flex gap-3">
+          <button onClick={()=>downloadReport('csv', items, intended)} disabled={!count('done')} className={link}>Export CSV</button>
+          <button onClick={()=>downloadReport('json', items, intended)} disabled={!count('done')} className={link}>Export JSON</button>
+        </span>
+      </div>
+
+      <div className="mt-3 max-h-96 overflow-auto">
+        <table className="w-full text-sm text-soft">
+          <thead className="text-xs text-left text-faint">
+            <tr>
+              {COLUMNS.map((c)=> (
+                <th key={c.key} className="py-1 pr-2 font-medium" aria-sort={sort.key === c.key ? (sort.dir === 'asc' ? 'ascending' : 'descending') : undefined}>
+                  <button onClick={()=>toggle(c.key)}>{c.label}{sort.key === c.key ? (sort.dir === 'asc' ? ' ▲' : ' ▼') : ''}</button>
+                </th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((i)=> (
+              <tr key={i.id} onClick={()=> i.result && onSelect(i)} className={`border-t border-line ${i.result ? 'cursor-pointer' : ''} ${selectedId === i.id ? 'bg-selected' : ''}`}>
+                <td className="py-2 pr-2">{ranks.get(i.id) ?? ''}</td>
+                <td className="pr-2 max-w-[12rem] truncate" title={i.file.name}>{i.file.name}</td>
+                <td className="pr-2 capitalize">{i.result?.predicted_emotion ?? '—'}</td>
+                <td className="pr-2">{i.result ? `${confidencePct(i.result.confidence).toFixed(1)}%` : ''}</td>
+                <td className="pr-2">{i.result ? (i.result.match ? 'Yes' : 'No') : ''}</td>
+                <td className={`pr-2 text-xs ${i.status === 'error' || i.status === 'skipped' ? 'text-rose-400' : 'text-faint'}`} title={i.error}>
+                  {i.status === 'uploading' ? `Uploading${i.attempts > 1 ? ` (try ${i.attempts})` : ''}…` : i.status === 'queued' && i.error ? 'Retrying…' : i.status === 'done' ? 'Done' : i.error || i.status}
+                </td>
+                <td className="text-right whitespace-nowrap" onClick={(e)=>e.stopPropagation()}>
+                  {i.status === 'error' && <button onClick={()=>onRetry(i)} disabled={running} className={link}>Retry</button>}
+                  {i.status !== 'uploading' && <button onClick={()=>onRemove(i)} disabled={running && i.status === 'queued'} className={`${link} ml-2`} title="Remove from batch">✕</button>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
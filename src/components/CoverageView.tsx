@@ -0,0 +1,59 @@
+// AI-CoDirector — scene-level coverage: which tagged lines have a take that hits its intended emotion.
+
+import React from "react";
+import { DialogueBlock, LineStatus, LineTag, lineStatus, sceneCoverage } from "../lib/coverage";
+import type { Screenplay } from "../lib/screenplay";
+
+const STATUS: Record<LineStatus, { label: string; bar: string; text: string }> = {
+  hit: { label: 'On target', bar: 'bg-emerald-500', text: 'text-emerald-500' },
+  miss: { label: 'Missed', bar: 'bg-rose-500', text: 'text-rose-400' },
+  untested: { label: 'No take', bar: 'bg-amber-400', text: 'text-amber-500' },
+  untagged: { label: 'Untagged', bar: 'bg-track', text: 'text-faint' },
+};
+const ORDER: LineStatus[] = ['hit', 'miss', 'untested', 'untagged'];
+
+export function CoverageView({ doc, tags, onSelect }:{ doc:Screenplay; tags:Record<string, LineTag>; onSelect:(block:DialogueBlock)=>void }){
+  const scenes = sceneCoverage(doc, tags);
+  const total = scenes.reduce((n, s)=> n + s.blocks.length, 0);
+  const hits = scenes.reduce((n, s)=> n + s.counts.hit, 0);
+
+  if (!total) return <div className="text-sm text-faint">No dialogue to cover in this script.</div>;
+
+  return (
+    <div className="text-sm text-soft">
+      <div className="flex flex-wrap items-center gap-3 text-xs mb-4">
+        <span className="font-semibold">{hits} of {total} lines on target</span>
+        {ORDER.map((s)=> <span key={s} className="flex items-center gap-1"><span className={`w-2.5 h-2.5 rounded-sm ${STATUS[s].bar}`} />{STATUS[s].label}</span>)}
+      </div>
+
+      {scenes.map((scene, i)=> (
+        <div key={i} className="mb-5">
+          <div className="flex items-center justify-between gap-3">
+            <div className="font-mono font-bold uppercase truncate">{scene.sceneNumber ? `${scene.sceneNumber}. ` : ''}{scene.heading || 'Opening'}</div>
+            <div className="text-xs shrink-0 text-faint">{scene.counts.hit}/{scene.blocks.length}</div>
+          </div>
+          <div className="mt-1 flex h-2 rounded-full overflow-hidden bg-track">
+            {ORDER.map((s)=> scene.counts[s] > 0 && <div key={s} className={STATUS[s].bar} style={{ width: `${(scene.counts[s] / scene.blocks.length) * 100}%` }} />)}
+          </div>
+          <ul className="mt-2 space-y-1">
+            {scene.blocks.map((b)=> {
+              const tag = tags[b.key]; const status = lineStatus(tag);
+              return (
+                <li key={b.ids[0]}>
+                  <button onClick={()=>onSelect(b)} className="w-full flex items-center gap-2 text-left rounded px-1 hover:bg-tint">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${STATUS[status].bar}`} />
+                    <span className="font-mono uppercase text-xs shrink-0">{b.character}</span>
+                    <span className="truncate">{b.text}</span>
+                    <span className={`ml-auto shrink-0 text-xs capitalize ${STATUS[status].text}`}>
+                      {tag?.emotion ?? ''}{status === 'miss' ? ` → ${tag?.take?.result.predicted_emotion}` : ''}{status === 'untagged' ? STATUS.untagged.label : ''}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
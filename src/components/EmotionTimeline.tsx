@@ -0,0 +1,46 @@
+// AI-CoDirector — color-coded per-window emotion timeline under the Video Stage.
+
+import React from "react";
+import { emotionColor, EMOTION_COLORS } from "../lib/emotions";
+import { confidencePct } from "../lib/recommendations";
+import type { TimelineSegment } from "../lib/segments";
+
+const fmt = (s: number) => `${Math.floor(s / 60)}:${String(Math.floor(s % 60)).padStart(2, '0')}`;
+
+export function EmotionTimeline({ segments, duration, progress, intended, matchRate, onSeek }:{ segments:TimelineSegment[]; duration:number; progress:number; intended:string; matchRate?:number; onSeek:(time:number)=>void }){
+  const done = segments.filter((s)=> s.status === 'done').length;
+  const seen = Array.from(new Set(segments.flatMap((s)=> s.result ? [s.result.predicted_emotion.toLowerCase()] : [])));
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between text-xs mb-2 text-faint">
+        <span>Emotion timeline · intended <strong className="capitalize">{intended || '—'}</strong></span>
+        <span>{done < segments.length ? `Analyzing ${done + 1} of ${segments.length}…` : matchRate !== undefined ? `On target in ${Math.round(matchRate * 100)}% of windows` : ''}</span>
+      </div>
+
+      <div className="relative flex h-6 rounded-md overflow-hidden bg-track">
+        {segments.map((s, i)=> {
+          const label = s.result ? `${fmt(s.start)}–${fmt(s.end)}: ${s.result.predicted_emotion} (${confidencePct(s.result.confidence).toFixed(0)}%)${s.result.match ? '' : ' · off target'}` : s.error ? `${fmt(s.start)}–${fmt(s.end)}: ${s.error}` : `${fmt(s.start)}–${fmt(s.end)}: pending`;
+          const fill = s.status === 'done' ? emotionColor(s.result?.predicted_emotion) : s.status === 'error' ? 'bg-rose-900/60' : 'bg-track animate-pulse';
+          return (
+            <button key={i} onClick={()=>onSeek(s.start)} title={label} aria-label={label}
+              className={`relative h-full border-r last:border-r-0 border-canvas ${fill}`}
+              style={{ width: `${((s.end - s.start) / (duration || 1)) * 100}%` }}>
+              {s.result && !s.result.match && <span className="absolute inset-x-0 bottom-0 h-1 bg-rose-600" />}
+            </button>
+          );
+        })}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-fg shadow pointer-events-none" style={{ left: `${progress * 100}%` }} />
+      </div>
+
+      {seen.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-muted">
+          {seen.filter((e)=> EMOTION_COLORS[e]).map((e)=> (
+            <span key={e} className="flex items-center gap-1 capitalize"><span className={`w-2.5 h-2.5 rounded-sm ${emotionColor(e)}`} />{e}</span>
+          ))}
+          <span className="flex items-center gap-1"><span className="w-2.5 h-1 bg-rose-600" />off target</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+// AI-CoDirector — Teleprompter export dropdown (PDF / DOCX / Fountain / FDX).
+
+import React, { useEffect, useRef, useState } from "react";
+import { Screenplay } from "../lib/screenplay";
+import { downloadScript, EXPORT_FORMATS, ExportFormat, ExportMeta } from "../lib/exporters";
+
+export function ExportMenu({ doc, meta }:{ doc:Screenplay | null; meta:ExportMeta }){
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [err, setErr] = useState('');
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(()=>{
+    if (!open) return;
+    const onDown = (e: MouseEvent)=>{ if (!rootRef.current?.contains(e.target as Node)) setOpen(false); };
+    window.addEventListener('mousedown', onDown);
+    return ()=> window.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  const run = async (format: ExportFormat)=>{
+    if (!doc) return;
+    setBusy(format); setErr('');
+    try { await downloadScript(format, doc, meta); setOpen(false); }
+    catch (e) { setErr(`Export failed: ${(e as Error)?.message || String(e)}`); }
+    setBusy(null);
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button onClick={()=>setOpen((o)=>!o)} disabled={!doc} aria-haspopup="menu" aria-expanded={open} className="px-3 py-1 rounded-md text-sm border disabled:opacity-40 border-line bg-raised text-soft">
+        {busy ? 'Exporting…' : 'Export'}
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 mt-2 w-48 z-10 rounded-md border shadow-lg py-1 bg-popover border-line">
+          {EXPORT_FORMATS.map(({ format, label })=> (
+            <button key={format} role="menuitem" onClick={()=>run(format)} disabled={busy !== null} className="block w-full text-left px-3 py-2 text-sm text-soft hover:bg-tint">{label}</button>
+          ))}
+          {err && <div className="px-3 py-2 text-xs text-rose-400">{err}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
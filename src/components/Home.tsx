@@ -1,227 +1,323 @@
 // AI-CoDirector — TypeScript-ready single-file (componentized) with
-// - Smooth theme transition
-// - Respects system preference on first load
-// - Keyboard shortcut (Ctrl+T) to toggle theme (accessible)
+// - Token-based themes (dark, light, high contrast, teleprompter) via ThemeProvider, with smooth transitions
+// - Follows the system preference until a theme is picked
+// - Keyboard shortcut (Ctrl+T) to cycle themes (accessible)
 // - Clear component exports for easy splitting into files later
 // - TypeScript types included (save as .tsx in your project)
 
-import React, { useEffect, useRef, useState, KeyboardEvent } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
-
-// -------------------- Types
-type Theme = "dark" | "light";
-type ScriptResult = { structured_script?: string; final_script?: string; [k: string]: any } | null;
-type EmotionResult = { predicted_emotion?: string; confidence?: number | string; match?: boolean; recommendations?: any } | null;
-
-// -------------------- Config
-const SCRIPT_API = "https://Arjun9036-script-writer-api.hf.space";
-const EMOTION_API = "https://arjun9036-multimodal-emotion-backend.hf.space/predict";
-
-// -------------------- Utility: inject smooth theme transition CSS once
-function useInjectThemeTransition() {
-  useEffect(() => {
-    const id = 'ai-codirector-theme-transition-style';
-    if (document.getElementById(id)) return;
-    const style = document.createElement('style');
-    style.id = id;
-    style.innerHTML = `
-      .ai-theme-transition * {
-        transition: background-color 280ms ease, color 280ms ease, border-color 280ms ease, box-shadow 280ms ease;
-      }
-    `;
-    document.head.appendChild(style);
-    return () => { style.remove(); };
-  }, []);
-}
+import { analyzeEmotion, describeApiError, generateScriptFromPdf, generateScriptStream, EmotionResult, GenerationStatus, ScriptResult } from "../lib/api";
+import { parseScreenplay, scriptText, toFountain } from "../lib/screenplay";
+import { ExportMeta } from "../lib/exporters";
+import { addVersion, AnalysisEntry, entryVersions, getEntry, ProjectEntry, saveEntry, saveGeneration, ScriptEntry, ScriptVersion, tagLine } from "../lib/projectStore";
+import { ExportMenu } from "./ExportMenu";
+import { ProjectSidebar } from "./ProjectSidebar";
+import { ScriptPage } from "./ScriptPage";
+import { analyzeWindows, canSplitInBrowser, planWindows, summarizeSegments, TimelineSegment } from "../lib/segments";
+import { validateVideoFile } from "../lib/media";
+import { BatchItem, filesFromDrop, runQueue, toBatchItems } from "../lib/batch";
+import { BatchQueue } from "./BatchQueue";
+import { RecommendationsPanel } from "./RecommendationsPanel";
+import { DialogueBlock, dialogueBlocks, LineCue, LineTag } from "../lib/coverage";
+import { LineTagger } from "./LineTagger";
+import { CoverageView } from "./CoverageView";
+import { PdfPreview } from "./PdfPreview";
+import { StylePresets } from "./StylePresets";
+import { BUILT_IN_PRESETS, findPreset, listPresets, styleFields, StylePreset } from "../lib/stylePresets";
+import { EmotionTimeline } from "./EmotionTimeline";
+import { RehearsalStage, Take } from "./RehearsalStage";
+import { VersionCompare, versionLabel } from "./VersionCompare";
+import { ThemeProvider, useTheme } from "./ThemeProvider";
+import { isThemeName, THEME_ORDER, THEMES } from "../lib/theme";
 
 // -------------------- Root App (default export)
 export default function AICoDirectorApp(): JSX.Element {
-  // Respect stored preference, else system preference, else default to dark
-  const [theme, setTheme] = useState<Theme>(() => {
-    try {
-      const stored = window.localStorage.getItem('ai_codirector_theme') as Theme | null;
-      if (stored === 'dark' || stored === 'light') return stored;
-      const prefersDark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
-      return prefersDark ? 'dark' : 'light';
-    } catch { return 'dark'; }
-  });
-
   const [tab, setTab] = useState<'script'|'emotion'>('script');
-
-  // Persist and set class on body
-  useEffect(() => {
-    try { window.localStorage.setItem('ai_codirector_theme', theme); } catch {}
-    document.documentElement.setAttribute('data-ai-theme', theme);
-  }, [theme]);
-
-  // Inject the theme transition rule
-  useInjectThemeTransition();
-
-  // Keyboard shortcut: Ctrl+T or Cmd+T to toggle theme (accessible)
-  useEffect(() => {
-    const handler = (e: KeyboardEvent | KeyboardEventInit) => {
-      // @ts-ignore - different event types across browsers
-      const isCtrl = e.ctrlKey || e.metaKey;
-      // Use key 't' (case-insensitive)
-      // @ts-ignore
-      const key = (e.key || '').toLowerCase();
-      if (isCtrl && key === 't') {
-        e.preventDefault();
-        setTheme((s) => (s === 'dark' ? 'light' : 'dark'));
-      }
-    };
-    window.addEventListener('keydown', handler as any);
-    return () => window.removeEventListener('keydown', handler as any);
-  }, []);
-
-  const isDark = theme === 'dark';
+  const [opened, setOpened] = useState<ProjectEntry | null>(null);
+  const [activeId, setActiveId] = useState<string | undefined>();
+
+  const [cue, setCue] = useState<LineCue | null>(null);
+  const [focusLine, setFocusLine] = useState<string | undefined>();
+
+  const openEntry = (entry: ProjectEntry) => { setTab(entry.kind === 'script' ? 'script' : 'emotion'); setOpened(entry); setActiveId(entry.id); };
+  const onSaved = (entry: ProjectEntry) => setActiveId(entry.id);
+  const onDeleted = (id: string) => { setActiveId((a) => (a === id ? undefined : a)); setOpened((o) => (o?.id === id ? null : o)); };
+
+  // Script-to-performance loop: a tagged line goes to the Emotion Detector and its result comes back as a badge.
+  // Results arrive after the analysis, so the line is read from a ref: a take detached meanwhile tags nothing
+  const cueRef = useRef<LineCue | null>(null);
+  const attachCue = (next: LineCue | null) => { cueRef.current = next; setCue(next); };
+  const takeForLine = (next: LineCue) => { attachCue(next); setOpened((o) => (o?.kind === 'analysis' ? null : o)); setTab('emotion'); };
+  const onLineResult = async (result: EmotionResult, intended: string, analysis?: ProjectEntry) => {
+    const line = cueRef.current;
+    if (!line) return;
+    const take = { analysisId: analysis?.id, videoName: analysis?.kind === 'analysis' ? analysis.input.video.name : 'Take', result, at: Date.now() };
+    if (!await tagLine(line.scriptId, line.key, { emotion: intended, take })) throw new Error('The script for this line is no longer saved');
+  };
+  const backToScript = async () => {
+    if (!cue) return setTab('script');
+    const script = await getEntry(cue.scriptId).catch(() => undefined);
+    setFocusLine(cue.key); attachCue(null);
+    if (script) openEntry(script); else setTab('script');
+  };
 
   return (
-    <div className={`ai-theme-transition ${isDark ? 'bg-gradient-to-b from-[#07060a] via-[#0b0711] to-[#0f0816] text-gray-100' : 'bg-gradient-to-b from-gray-50 via-gray-100 to-white text-gray-900'}`}>
-      <Header theme={theme} setTheme={setTheme} active={tab} setActive={setTab} />
-
-      <main className="max-w-7xl mx-auto px-6 lg:px-8 py-12 grid grid-cols-1 lg:grid-cols-4 gap-8">
-        <section className="lg:col-span-3">
-          {tab === 'script' ? <ScriptWriter theme={theme} /> : <EmotionDetector theme={theme} />}
-        </section>
-        <aside className="space-y-6">
-          <GlassCard theme={theme}>
-            <h4 className={isDark ? 'text-gray-100' : 'text-gray-900'}>Quick Controls</h4>
-            <p className={isDark ? 'text-gray-300' : 'text-gray-600'}>Primary flows: Script generation & Emotion analysis. Toggle theme with the button or <strong>Ctrl/Cmd + T</strong>.</p>
-          </GlassCard>
-
-          <GlassCard theme={theme}>
-            <h4 className={isDark ? 'text-gray-100' : 'text-gray-900'}>Best Practices</h4>
-            <ul className={isDark ? 'text-gray-300' : 'text-gray-600'}>
-              <li>Short (3–8s) frontal clips work best.</li>
-              <li>Prefer searchable PDFs for accurate extraction.</li>
-            </ul>
-          </GlassCard>
-
-          <GlassCard theme={theme}>
-            <h4 className={isDark ? 'text-gray-100' : 'text-gray-900'}>Brand</h4>
-            <p className={isDark ? 'text-gray-300' : 'text-gray-600'}>AI-CoDirector — cinematic UI, now with smooth transitions & accessibility improvements.</p>
-          </GlassCard>
-        </aside>
-      </main>
-
-      <footer className={isDark ? 'py-6 text-center text-sm text-gray-500 border-t border-gray-900' : 'py-6 text-center text-sm text-gray-500 border-t border-gray-200'}>
-        Built by <strong className={isDark ? 'text-gray-200' : 'text-gray-700'}>Arjun Goyal</strong>
-      </footer>
-    </div>
+    <ThemeProvider>
+      <div className="bg-gradient-to-b from-canvas to-canvas-2 text-soft">
+        <Header active={tab} setActive={setTab} />
+
+        <main className="max-w-7xl mx-auto px-6 lg:px-8 py-12 grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <section className="lg:col-span-3">
+            {tab === 'script'
+              ? <ScriptWriter entry={opened?.kind === 'script' ? opened : null} focusLine={focusLine} onLineFocused={()=>setFocusLine(undefined)} onSaved={onSaved} onTakeForLine={takeForLine} />
+              : <EmotionDetector entry={opened?.kind === 'analysis' ? opened : null} cue={cue} onSaved={onSaved} onLineResult={onLineResult} onBackToScript={backToScript} onDetachLine={()=>attachCue(null)} />}
+          </section>
+          <aside className="space-y-6">
+            <GlassCard>
+              <ProjectSidebar activeId={activeId} onOpen={openEntry} onDeleted={onDeleted} />
+            </GlassCard>
+          </aside>
+        </main>
+
+        <footer className="py-6 text-center text-sm text-faint border-t border-line">
+          Built by <strong className="text-soft">Arjun Goyal</strong>
+        </footer>
+      </div>
+    </ThemeProvider>
   );
 }
 
 // -------------------- Header
-export function Header({ theme, setTheme, active, setActive }:{ theme:Theme; setTheme:(t:Theme)=>void; active:'script'|'emotion'; setActive:(s:'script'|'emotion')=>void }){
-  const isDark = theme === 'dark';
+export function Header({ active, setActive }:{ active:'script'|'emotion'; setActive:(s:'script'|'emotion')=>void }){
+  const { choice, setTheme } = useTheme();
   return (
-    <header className={isDark ? 'backdrop-blur-sm bg-black/30 border-b border-gray-900' : 'bg-white/80 border-b border-gray-200 backdrop-blur-sm'}>
+    <header className="backdrop-blur-sm bg-chrome border-b border-line">
       <div className="max-w-7xl mx-auto px-6 lg:px-8 py-6 flex items-center justify-between gap-6">
         <div className="flex items-center gap-4">
-          <div className={`w-12 h-12 rounded-xl flex items-center justify-center shadow-xl ${isDark ? 'bg-gradient-to-br from-purple-700 via-indigo-700 to-rose-600' : 'bg-gradient-to-br from-teal-400 to-cyan-500'}`}>
-            <span className={`font-bold ${isDark ? 'text-white' : 'text-white'}`}>CD</span>
+          <div className="w-12 h-12 rounded-xl flex items-center justify-center shadow-xl bg-gradient-to-br from-accent to-accent-2">
+            <span className="font-bold text-on-accent">CD</span>
           </div>
 
           <div>
-            <h1 className={`text-2xl font-extrabold tracking-tight ${isDark ? 'text-white' : 'text-gray-900'}`}>AI‑CoDirector</h1>
-            <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>Cinematic tools — Script & Emotion</p>
+            <h1 className="text-2xl font-extrabold tracking-tight text-fg">AI‑CoDirector</h1>
+            <p className="text-sm text-muted">Cinematic tools — Script & Emotion</p>
           </div>
         </div>
 
         <nav className="flex items-center gap-3">
-          <TabButton active={active==='script'} onClick={()=>setActive('script')} theme={theme}>Script Writer</TabButton>
-          <TabButton active={active==='emotion'} onClick={()=>setActive('emotion')} theme={theme}>Emotion Detector</TabButton>
+          <TabButton active={active==='script'} onClick={()=>setActive('script')}>Script Writer</TabButton>
+          <TabButton active={active==='emotion'} onClick={()=>setActive('emotion')}>Emotion Detector</TabButton>
 
-          <button aria-label="Toggle theme (Ctrl/Cmd + T)" title="Toggle theme (Ctrl/Cmd + T)" onClick={()=> setTheme(isDark ? 'light' : 'dark')} className={`ml-4 px-3 py-2 rounded-md border ${isDark ? 'border-white/10 bg-white/5 text-gray-100' : 'border-gray-200 bg-white text-gray-700'}`}>
-            {isDark ? 'Light' : 'Dark'}
-          </button>
+          <select aria-label="Theme (Ctrl/Cmd + T to cycle)" title="Theme (Ctrl/Cmd + T to cycle)" value={choice ?? 'system'} onChange={(e)=> setTheme(isThemeName(e.target.value) ? e.target.value : null)} className="ml-4 px-3 py-2 rounded-md border border-line bg-raised text-soft">
+            <option value="system">System</option>
+            {THEME_ORDER.map((t)=> <option key={t} value={t}>{THEMES[t].label}</option>)}
+          </select>
         </nav>
       </div>
     </header>
   );
 }
 
-export function TabButton({ children, active, onClick, theme }:{ children:React.ReactNode; active:boolean; onClick:()=>void; theme:Theme }){
-  const isDark = theme === 'dark';
+export function TabButton({ children, active, onClick }:{ children:React.ReactNode; active:boolean; onClick:()=>void }){
   return (
-    <button onClick={onClick} className={`px-4 py-2 rounded-md text-sm font-semibold transition ${active ? (isDark ? 'bg-gradient-to-r from-purple-600 to-amber-500 text-black shadow' : 'bg-teal-50 text-teal-600') : (isDark ? 'text-gray-300 hover:bg-white/5' : 'text-gray-600 hover:bg-gray-50')}`}>
+    <button onClick={onClick} className={`px-4 py-2 rounded-md text-sm font-semibold transition ${active ? 'bg-gradient-to-r from-accent to-accent-2 text-on-accent shadow' : 'text-muted hover:bg-tint'}`}>
       {children}
     </button>
   );
 }
 
 // -------------------- GlassCard
-export function GlassCard({ children, theme }:{ children:React.ReactNode; theme?:Theme }){
-  const isDark = (theme ?? 'dark') === 'dark';
-  return <div className={`p-5 rounded-2xl ${isDark ? 'bg-white/3 border border-white/6 shadow-lg backdrop-blur' : 'bg-white shadow-sm border border-gray-100'}`}>{children}</div>;
+export function GlassCard({ children }:{ children:React.ReactNode }){
+  return <div className="p-5 rounded-2xl bg-surface border border-line shadow-sm backdrop-blur">{children}</div>;
 }
 
 // -------------------- ScriptWriter component
-export function ScriptWriter({ theme }:{ theme:Theme }){
-  const isDark = theme === 'dark';
-  const [genre, setGenre] = useState('Drama');
+export function ScriptWriter({ entry, focusLine, onLineFocused, onSaved, onTakeForLine }:{ entry?:ScriptEntry | null; focusLine?:string; onLineFocused?:()=>void; onSaved?:(entry:ProjectEntry)=>void; onTakeForLine?:(cue:LineCue)=>void }){
+  const [presets, setPresets] = useState<StylePreset[]>(listPresets);
+  const [preset, setPreset] = useState<StylePreset>(BUILT_IN_PRESETS[0]);
+  const genre = preset.genre;
   const [text, setText] = useState('');
   const [pdf, setPdf] = useState<File | null>(null);
+  const [pdfDraft, setPdfDraft] = useState<File | null>(null);
+  const [pdfName, setPdfName] = useState('');
   const [loading, setLoading] = useState(false);
-  const [out, setOut] = useState<ScriptResult>(null);
+  const [out, setOut] = useState<ScriptResult | null>(null);
   const [err, setErr] = useState('');
+  const [view, setView] = useState<'page'|'fountain'|'coverage'|'compare'>('page');
+  const [outMeta, setOutMeta] = useState<ExportMeta>({});
+  const [current, setCurrent] = useState<ScriptEntry | null>(null);
+  const [versionId, setVersionId] = useState<string | undefined>();
+  const versions = current ? entryVersions(current) : [];
+  const abortRef = useRef<AbortController | null>(null);
+  const [status, setStatus] = useState<GenerationStatus | 'done' | 'cancelled' | ''>('');
+  const [elapsed, setElapsed] = useState(0);
+  const [received, setReceived] = useState(0);
+  const promptRef = useRef<HTMLDivElement | null>(null);
+  const doc = useMemo(()=> out ? parseScreenplay(scriptText(out)) : null, [out]);
+  const blocks = useMemo(()=> doc ? dialogueBlocks(doc) : [], [doc]);
+  const [selectedLine, setSelectedLine] = useState<string | undefined>();
+  const selectedBlock = blocks.find((b)=> b.key === selectedLine);
+  const tags = current?.lines ?? {};
+
+  useEffect(()=> ()=> abortRef.current?.abort(), []);
+
+  // Reopen a saved generation from the project sidebar
+  useEffect(()=>{
+    if (!entry) return;
+    abortRef.current?.abort(); setLoading(false); setErr('');
+    setPreset(findPreset(listPresets(), entry.input.genre, entry.input.preset)); setText(entry.input.text || ''); setPdf(null); setPdfDraft(null); setPdfName(entry.input.pdfName || ''); setOut(entry.output);
+    setOutMeta({ genre: entry.input.genre, title: entry.input.pdfName?.replace(/\.pdf$/i, ''), date: new Date(entry.createdAt) });
+    setCurrent(entry); setVersionId(entryVersions(entry).slice(-1)[0].id); setView('page'); setSelectedLine(undefined);
+  }, [entry]);
+
+  // Coming back from a take, keep the line that was sent selected
+  useEffect(()=>{ if (entry && focusLine) { setSelectedLine(focusLine); onLineFocused?.(); } }, [entry, focusLine, onLineFocused]);
+
+  // Tags live on the saved entry, keyed by line, so they follow the line across versions
+  const setTag = async (key: string, tag: LineTag | null) => {
+    if (!current) return;
+    const updated = await tagLine(current.id, key, tag).catch(()=> undefined);
+    if (!updated) { setErr('Could not save the line tag.'); return undefined; }
+    setCurrent(updated);
+    return updated;
+  };
+  const selectedId = selectedBlock?.ids[0];
+  useEffect(()=>{ if (selectedId) document.getElementById(selectedId)?.scrollIntoView?.({ block: 'nearest' }); }, [selectedId]);
+  const selectLine = (block: DialogueBlock) => { setSelectedLine(block.key); if (view !== 'page') setView('page'); };
+  // The tag is saved before leaving, so the take's result can't land first and be overwritten
+  const takeForLine = async (block: DialogueBlock, emotion: string, file?: File) => {
+    if (!current || !emotion) return;
+    if (!await setTag(block.key, { ...tags[block.key], emotion })) return;
+    onTakeForLine?.({ scriptId: current.id, key: block.key, character: block.character, text: block.text, emotion, file });
+  };
+
+  const showVersion = (id: string) => {
+    const v = versions.find((x)=> x.id === id); if (!v) return;
+    setVersionId(id); setOut(v.output); setOutMeta((m)=> ({ ...m, genre: v.genre, date: new Date(v.createdAt) }));
+  };
+
+  // The merge starts from the left-hand version, so it keeps that version's genre
+  const saveMerged = async (merged: string, base: ScriptVersion) => {
+    if (!current) return;
+    const updated = await addVersion(current.id, { genre: base.genre, output: { final_script: merged }, label: 'Merged' }).catch(()=> undefined);
+    if (!updated) return setErr('Could not save the merged draft.');
+    setCurrent(updated); setOut(updated.output); setVersionId(entryVersions(updated).slice(-1)[0].id); setView('page');
+  };
+
+  // Fountain / plain-text files go straight into the editor; PDFs are read in the browser first,
+  // and only sent to the extraction endpoint when the user asks for it
+  const onScriptFile = async (f: File | null) => {
+    setPdf(null); setPdfDraft(null); setPdfName('');
+    if (!f) return;
+    if (/\.pdf$/i.test(f.name) || f.type === 'application/pdf') return setPdfDraft(f);
+    setText(await f.text());
+  };
 
   const submit = async (e?:React.FormEvent) => {
     e?.preventDefault(); setErr(''); setOut(null);
+    if (pdfDraft) return setErr('Choose the PDF pages to use, or send the PDF to the server.');
     if (!pdf && !text.trim()) return setErr('Please paste script text or upload a PDF.');
-    setLoading(true);
+    abortRef.current?.abort(); const ctrl = new AbortController(); abortRef.current = ctrl;
+    setLoading(true); setStatus(pdf ? 'waiting' : 'connecting'); setElapsed(0); setReceived(0); setView('page');
+    // Until the new script is saved there is no entry to tag lines on or compare against
+    setCurrent(null); setVersionId(undefined); setSelectedLine(undefined);
+    // Streamed text reaches the Teleprompter at most every 150ms; parsing every chunk would stall typing-speed streams
+    let latest = ''; let flush: ReturnType<typeof setTimeout> | undefined;
+    const onText = (t: string)=>{ latest = t; if (!flush) flush = setTimeout(()=>{ flush = undefined; if (abortRef.current === ctrl) { setOut({ final_script: latest }); setReceived(latest.length); } }, 150); };
     try{
-      let resp: Response;
-      if (pdf){ const fd = new FormData(); fd.append('file', pdf); fd.append('genre', genre); resp = await fetch(`${SCRIPT_API}/generate-script-from-pdf/`, { method: 'POST', body: fd }); }
-      else { resp = await fetch(`${SCRIPT_API}/generate-script/`, { method: 'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ original_script: text, genre }) }); }
-      const data = await resp.json(); if (!resp.ok) throw new Error(data?.detail || 'Server error'); setOut(data);
-    }catch(e:any){ setErr(e?.message || String(e)); }
-    setLoading(false);
+      const style = styleFields(preset);
+      const data = pdf ? await generateScriptFromPdf({ file: pdf, genre, style }, { signal: ctrl.signal })
+        : await generateScriptStream({ text, genre, style }, { signal: ctrl.signal, onText, onStatus: (s)=>{ if (abortRef.current === ctrl) setStatus(s); } });
+      clearTimeout(flush);
+      const source = pdf?.name || pdfName || undefined;
+      setOut(data); setOutMeta({ genre, title: source?.replace(/\.pdf$/i, ''), date: new Date() }); setStatus('done');
+      saveGeneration({ genre, preset: preset.builtIn ? undefined : preset.id, text: pdf ? undefined : text, pdfName: source }, data).then((saved)=>{ setCurrent(saved); setVersionId(entryVersions(saved).slice(-1)[0].id); onSaved?.(saved); }, ()=> setErr('Could not save to project history.'));
+    }catch(e){ clearTimeout(flush); if (abortRef.current === ctrl) { setErr(describeApiError(e)); setStatus(''); } }
+    if (abortRef.current === ctrl) setLoading(false);
   };
 
+  // Partial text stays on screen after a cancel, but is not saved
+  const cancel = ()=>{ abortRef.current?.abort(); abortRef.current = null; setLoading(false); setStatus('cancelled'); };
+
+  useEffect(()=>{
+    if (!loading) return;
+    const started = Date.now();
+    const timer = setInterval(()=> setElapsed(Math.floor((Date.now() - started) / 1000)), 500);
+    return ()=> clearInterval(timer);
+  }, [loading]);
+
+  // Follow the text as it streams in
+  useEffect(()=>{ if (status === 'streaming' && promptRef.current) promptRef.current.scrollTop = promptRef.current.scrollHeight; }, [out, status]);
+
+  const clock = `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`;
+  const statusLabel = status === 'connecting' ? 'Connecting to the script model…'
+    : status === 'waiting' ? (pdf ? 'Extracting the PDF and generating…' : 'Waiting for the model…')
+    : status === 'retrying' ? 'The server is waking up — retrying…'
+    : status === 'streaming' ? `Receiving script · ${received.toLocaleString()} characters`
+    : status === 'done' ? `Generated in ${clock}`
+    : status === 'cancelled' ? `Cancelled after ${clock}` : '';
+
   return (
     <motion.div initial={{ opacity:0, y:8 }} animate={{ opacity:1, y:0 }} className="rounded-3xl overflow-hidden">
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <div className={`${isDark ? 'bg-black/40' : 'bg-white/50'} p-6 rounded-2xl border ${isDark ? 'border-white/6' : 'border-gray-100'} shadow-inner`}>
-          <h2 className={`${isDark ? 'text-white' : 'text-gray-900'} text-lg font-semibold`}>Script Writer</h2>
-          <p className={`${isDark ? 'text-gray-300' : 'text-gray-600'} text-sm mt-2`}>Generate screenplay text tailored to a genre.</p>
+        <div className="bg-panel p-6 rounded-2xl border border-line shadow-inner">
+          <h2 className="text-fg text-lg font-semibold">Script Writer</h2>
+          <p className="text-muted text-sm mt-2">Generate screenplay text tailored to a genre and your house style.</p>
 
           <div className="mt-4 space-y-3">
-            <label className={`${isDark ? 'text-gray-300' : 'text-gray-600'} text-sm`}>Genre</label>
-            <select value={genre} onChange={(e)=>setGenre(e.target.value)} className={`w-full p-3 rounded-md ${isDark ? 'bg-black/60 text-white border border-white/8' : 'bg-white border'}`}>
-              <option>Drama</option>
-              <option>Thriller</option>
-              <option>Comedy</option>
-              <option>Action</option>
-              <option>Romance</option>
-            </select>
+            <StylePresets presets={presets} value={preset} disabled={loading} onChange={setPreset} onPresetsChange={setPresets} />
 
-            <label className={`${isDark ? 'text-gray-300' : 'text-gray-600'} text-sm`}>Or paste your script</label>
-            <textarea rows={6} value={text} onChange={(e)=>setText(e.target.value)} className={`w-full p-3 rounded-md ${isDark ? 'bg-black/60 text-white border border-white/8 placeholder-gray-400' : 'bg-white border'}`} placeholder="Paste screenplay (optional)" />
+            <label className="text-muted text-sm">{pdfName && !pdf ? `Text from ${pdfName} — edit before generating` : 'Or paste your script'}</label>
+            <textarea rows={6} value={text} onChange={(e)=>{ setText(e.target.value); if (!e.target.value) setPdfName(''); }} className="w-full p-3 rounded-md bg-field text-fg border border-line placeholder-faint" placeholder="Paste screenplay (optional)" />
 
-            <FileDrop accept="application/pdf" label="Upload PDF (optional)" onFileSelected={(f)=>setPdf(f)} theme={theme} />
+            <FileDrop accept="application/pdf,.fountain,.txt" label="Upload PDF or Fountain (optional)" onFileSelected={onScriptFile} />
+            {pdfDraft && <PdfPreview file={pdfDraft} onUseText={(t)=>{ setText(t); setPdfName(pdfDraft.name); setPdfDraft(null); }} onSendPdf={()=>{ setPdf(pdfDraft); setPdfDraft(null); }} onCancel={()=>setPdfDraft(null)} />}
+            {pdf && <div className="text-xs flex items-center gap-2 text-faint">{pdf.name} will be sent to the server for extraction. <button onClick={()=>setPdf(null)} className="underline">Remove</button></div>}
 
             <div className="flex gap-3 mt-2">
-              <button onClick={()=>submit()} disabled={loading} className={`flex-1 py-3 rounded-lg font-semibold ${isDark ? 'bg-gradient-to-r from-purple-600 to-amber-500 text-black' : 'bg-teal-600 text-white'}`}>{loading ? 'Generating…' : 'Generate'}</button>
-              <button onClick={()=>{ setText(''); setPdf(null); setOut(null); setErr(''); }} className={`px-4 py-3 rounded-lg ${isDark ? 'bg-white/5' : 'bg-white border'}`}>Reset</button>
+              <button onClick={()=>submit()} disabled={loading} className="flex-1 py-3 rounded-lg font-semibold bg-gradient-to-r from-accent to-accent-2 text-on-accent">{loading ? 'Generating…' : 'Generate'}</button>
+              {loading ? <button onClick={cancel} className="px-4 py-3 rounded-lg font-semibold bg-raised border border-line text-soft">Cancel</button>
+              : <button onClick={()=>{ abortRef.current?.abort(); setLoading(false); setStatus(''); setText(''); setPdf(null); setPdfDraft(null); setPdfName(''); setOut(null); setErr(''); setCurrent(null); setView('page'); setSelectedLine(undefined); }} className="px-4 py-3 rounded-lg bg-raised border border-line">Reset</button>}
             </div>
 
+            {statusLabel && (
+              <div role="status" className="flex items-center gap-2 text-xs text-faint">
+                {loading && <span className={`w-2 h-2 rounded-full animate-pulse ${status === 'retrying' ? 'bg-amber-400' : 'bg-accent'}`} />}
+                <span>{statusLabel}</span>
+                {loading && <span className="ml-auto tabular-nums">{clock}</span>}
+              </div>
+            )}
             {err && <div className="text-sm text-rose-400">{err}</div>}
           </div>
         </div>
 
-        <div className={`${isDark ? 'col-span-2 bg-gradient-to-b from-black/70 to-black/50' : 'col-span-2 bg-white'} p-6 rounded-2xl border ${isDark ? 'border-white/6' : 'border-gray-100'}`}>
+        <div className="col-span-2 bg-panel p-6 rounded-2xl border border-line">
           <div className="flex items-center justify-between mb-3">
-            <h3 className={`${isDark ? 'text-white' : 'text-gray-900'} text-lg font-semibold`}>Teleprompter</h3>
-            <div className={`${isDark ? 'text-gray-300' : 'text-gray-600'} text-sm`}>Monospace view for easy reading</div>
+            <h3 className="text-fg text-lg font-semibold">Teleprompter</h3>
+            <div className="flex items-center gap-2 text-sm">
+              {versions.length > 1 && view !== 'compare' && (
+                <select aria-label="Version" value={versionId} onChange={(e)=>showVersion(e.target.value)} className="p-1 rounded-md text-sm bg-field text-fg border border-line">
+                  {versions.map((v, i)=> <option key={v.id} value={v.id}>{versionLabel(v, i)}</option>)}
+                </select>
+              )}
+              {(['page','fountain', ...(blocks.length ? ['coverage'] as const : []), ...(versions.length > 1 ? ['compare'] as const : [])] as const).map((v)=> (
+                <button key={v} onClick={()=>setView(v)} aria-pressed={view===v} className={`px-3 py-1 rounded-md capitalize ${view===v ? 'bg-selected text-on-selected' : 'text-muted hover:bg-tint'}`}>{v}</button>
+              ))}
+              <ExportMenu doc={doc} meta={outMeta} />
+            </div>
           </div>
 
-          <div className={`h-96 overflow-auto rounded-md p-4 ${isDark ? 'bg-black/80 border border-white/8' : 'bg-gray-50 border border-gray-100'}`}>
-            <pre className={`font-mono text-sm ${isDark ? 'text-white/90' : 'text-gray-800'} whitespace-pre-wrap leading-relaxed`}>
-              {out ? (out.structured_script || out.final_script || JSON.stringify(out, null, 2)) : 'Your generated script will appear here — formatted for reading.'}
-            </pre>
+          <div ref={promptRef} className="h-96 overflow-auto rounded-md p-4 bg-well border border-line">
+            {view === 'compare' && versions.length > 1 ? <VersionCompare versions={versions} onSaveMerged={saveMerged} />
+              : doc && view === 'coverage' ? <CoverageView doc={doc} tags={tags} onSelect={selectLine} />
+              : <div className="cd-prompt">{doc && view === 'page' ? <ScriptPage doc={doc} lines={current && !loading ? { tags, selectedKey: selectedLine, onSelect: selectLine } : undefined} /> : (
+              <pre className="font-mono text-[0.875em] text-soft whitespace-pre-wrap leading-relaxed">
+                {doc ? toFountain(doc) : 'Your generated script will appear here — formatted for reading.'}
+              </pre>
+            )}</div>}
           </div>
+          {view === 'page' && selectedBlock && current && !loading && <LineTagger block={selectedBlock} tag={tags[selectedBlock.key]} onTag={(tag)=>setTag(selectedBlock.key, tag)} onTake={(emotion, file)=>takeForLine(selectedBlock, emotion, file)} onClose={()=>setSelectedLine(undefined)} />}
         </div>
       </div>
     </motion.div>
@@ -229,78 +325,182 @@ export function ScriptWriter({ theme }:{ theme:Theme }){
 }
 
 // -------------------- EmotionDetector
-export function EmotionDetector({ theme }:{ theme:Theme }){
-  const isDark = theme === 'dark';
+export function EmotionDetector({ entry, cue, onSaved, onLineResult, onBackToScript, onDetachLine }:{ entry?:AnalysisEntry | null; cue?:LineCue | null; onSaved?:(entry:ProjectEntry)=>void; onLineResult?:(result:EmotionResult, intended:string, analysis?:ProjectEntry)=>Promise<void>; onBackToScript?:()=>void; onDetachLine?:()=>void }){
   const [file, setFile] = useState<File | null>(null);
   const [src, setSrc] = useState('');
   const [emotion, setEmotion] = useState('');
-  const [result, setResult] = useState<EmotionResult>(null);
+  const [result, setResult] = useState<EmotionResult | null>(null);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [progress, setProgress] = useState(0);
+  const [restoredName, setRestoredName] = useState('');
+  const [duration, setDuration] = useState(0);
+  const [segments, setSegments] = useState<TimelineSegment[]>([]);
+  const [matchRate, setMatchRate] = useState<number | undefined>();
+  const [mode, setMode] = useState<'upload'|'rehearse'|'batch'>('upload');
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [selectedTake, setSelectedTake] = useState('');
+  const batchAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(()=> ()=>{ abortRef.current?.abort(); batchAbortRef.current?.abort(); }, []);
+
+  // Reopen a saved analysis; the video itself is not stored, only its metadata
+  useEffect(()=>{
+    if (!entry) return;
+    abortRef.current?.abort(); setLoading(false); setError('');
+    setMode('upload'); setFile(null); setEmotion(entry.input.intendedEmotion); setResult(entry.output); setRestoredName(entry.input.video.name);
+    setSegments(entry.segments ?? []); setDuration(entry.input.video.duration ?? 0); setMatchRate(entry.segments ? summarizeSegments(entry.segments)?.matchRate : undefined);
+  }, [entry]);
+
+  // A line sent from the Teleprompter: use its tagged emotion, with the attached take or the camera
+  useEffect(()=>{
+    if (!cue) return;
+    abortRef.current?.abort(); setLoading(false); setError(''); setResult(null); setRestoredName(''); setSegments([]); setMatchRate(undefined);
+    setEmotion(cue.emotion); setMode(cue.file ? 'upload' : 'rehearse'); setFile(cue.file ?? null);
+  }, [cue]);
 
   useEffect(()=>{ if(!file){ setSrc(''); return;} const url = URL.createObjectURL(file); setSrc(url); return ()=> URL.revokeObjectURL(url); }, [file]);
-  useEffect(()=>{ const v = videoRef.current; if(!v) return; const onTime = ()=> setProgress(v.duration ? (v.currentTime / v.duration) : 0); v.addEventListener('timeupdate', onTime); return ()=> v.removeEventListener('timeupdate', onTime); }, [src]);
+  useEffect(()=>{ const v = videoRef.current; if(!v) return; const onTime = ()=> setProgress(v.duration ? (v.currentTime / v.duration) : 0); const onMeta = ()=> setDuration(Number.isFinite(v.duration) ? v.duration : 0); v.addEventListener('timeupdate', onTime); v.addEventListener('loadedmetadata', onMeta); return ()=>{ v.removeEventListener('timeupdate', onTime); v.removeEventListener('loadedmetadata', onMeta); }; }, [src, mode]);
+
+  const onFileSelected = (f: File | null) =>{ setError(''); setResult(null); setRestoredName(''); setSegments([]); setMatchRate(undefined); if(!f) return setFile(null); const invalid = validateVideoFile(f); if(invalid) return setError(invalid); setFile(f); };
 
-  const onFileSelected = (f: File | null) =>{ setError(''); setResult(null); if(!f) return setFile(null); if(!f.type.startsWith('video/')) return setError('Please upload a valid video file'); if(f.size > 50*1024*1024) return setError('File too large (50MB max)'); setFile(f); };
+  const tagTake = (result: EmotionResult, intended: string, saved?: ProjectEntry)=>
+    onLineResult?.(result, intended, saved).catch((e: unknown)=> setError(`Could not save the take on the script line: ${(e as Error)?.message || e}`));
 
-  const analyze = async ()=>{ if(!file || !emotion.trim()) return setError('Upload video and enter intended emotion'); setLoading(true); setError(''); setResult(null); try{ const fd = new FormData(); fd.append('video', file); fd.append('user_emotion', emotion); const r = await fetch(EMOTION_API, { method: 'POST', body: fd }); const data = await r.json(); if(!r.ok) throw new Error(data?.detail || 'Server error'); setResult(data);}catch(e:any){ setError(e?.message || String(e)); } setLoading(false); };
+  const onTakeAnalyzed = (take: Take)=>{
+    if (!take.result) return;
+    setResult(take.result);
+    const result = take.result;
+    saveEntry({ kind: 'analysis', name: `Take ${take.number} — ${take.emotion}`, input: { intendedEmotion: take.emotion, video: { name: take.file.name, size: take.file.size, type: take.file.type } }, output: result })
+      .then((saved)=>{ onSaved?.(saved); tagTake(result, take.emotion, saved); }, ()=>{ setError('Could not save to project history.'); tagTake(result, take.emotion); });
+  };
+
+  // Batch mode: every queued take is uploaded for the same intended emotion, a few at a time
+  const onBatchFiles = (files: File[])=>{ setError(''); setBatch((list)=> [...list, ...toBatchItems(files, list)]); };
+  const runBatch = async (items: BatchItem[])=>{
+    if(!emotion.trim()) return setError('Enter the intended emotion before analyzing the batch');
+    if(!items.some((i)=> i.status === 'queued')) return setError('Add video files to the batch first');
+    const ctrl = new AbortController(); batchAbortRef.current = ctrl;
+    setBatchRunning(true); setError('');
+    const intended = emotion.trim();
+    // Each finished take goes to the project history like a single upload does
+    const save = (item: BatchItem)=> item.result && saveEntry({ kind: 'analysis', input: { intendedEmotion: intended, video: { name: item.file.name, size: item.file.size, type: item.file.type } }, output: item.result })
+      .catch(()=> setError(`Could not save ${item.file.name} to project history.`));
+    const onChange = (item: BatchItem)=>{ setBatch((list)=> list.map((i)=> i.id === item.id ? item : i)); if (item.status === 'done') save(item); };
+    await runQueue(items, (video, signal)=> analyzeEmotion({ video, intendedEmotion: intended }, { signal, retries: 0 }), { signal: ctrl.signal, onChange });
+    if(batchAbortRef.current === ctrl) setBatchRunning(false);
+  };
+  const retryTake = (item: BatchItem)=>{ const reset: BatchItem = { ...item, status: 'queued', attempts: 0, error: undefined }; setBatch((list)=> list.map((i)=> i.id === item.id ? reset : i)); runBatch([reset]); };
+  const selectTake = (item: BatchItem)=>{ setSelectedTake(item.id); setResult(item.result ?? null); };
+  const clearBatch = ()=>{ batchAbortRef.current?.abort(); batchAbortRef.current = null; setBatchRunning(false); setBatch([]); setSelectedTake(''); setResult(null); setError(''); };
+
+  // Longer clips are split into windows in the browser and analyzed one by one for the timeline
+  const analyze = async ()=>{
+    if(!file || !emotion.trim()) return setError('Upload video and enter intended emotion');
+    abortRef.current?.abort(); const ctrl = new AbortController(); abortRef.current = ctrl;
+    setLoading(true); setError(''); setResult(null); setSegments([]); setMatchRate(undefined);
+    const windows = canSplitInBrowser() ? planWindows(duration) : [];
+    try{
+      let data: EmotionResult; let segs: TimelineSegment[] | undefined;
+      if (windows.length > 1) {
+        segs = await analyzeWindows(file, windows, (clip)=> analyzeEmotion({ video: clip, intendedEmotion: emotion }, { signal: ctrl.signal }), { signal: ctrl.signal, onUpdate: setSegments });
+        const summary = summarizeSegments(segs);
+        if (!summary) throw new Error(segs.find((s)=> s.error)?.error || 'No window could be analyzed');
+        data = summary.result; setMatchRate(summary.matchRate);
+      } else {
+        data = await analyzeEmotion({ video: file, intendedEmotion: emotion }, { signal: ctrl.signal });
+        if (duration) { segs = [{ start: 0, end: duration, status: 'done', result: data }]; setSegments(segs); }
+      }
+      setResult(data);
+      const intended = emotion.trim();
+      saveEntry({ kind: 'analysis', input: { intendedEmotion: emotion, video: { name: file.name, size: file.size, type: file.type, duration: duration || undefined } }, output: data, segments: segs })
+        .then((saved)=>{ onSaved?.(saved); tagTake(data, intended, saved); }, ()=>{ setError('Could not save to project history.'); tagTake(data, intended); });
+    }catch(e){ setError(describeApiError(e)); }
+    if(abortRef.current === ctrl) setLoading(false);
+  };
 
   return (
     <motion.div initial={{ opacity:0, y:10 }} animate={{ opacity:1, y:0 }} className="rounded-3xl overflow-hidden">
+      {cue && (
+        <div className="mb-4 px-4 py-3 rounded-2xl border flex flex-wrap items-center gap-3 text-sm bg-selected border-line text-soft">
+          <span className="font-mono uppercase text-xs">{cue.character}</span>
+          <span className="italic truncate max-w-md">“{cue.text}”</span>
+          <span className="capitalize">· intended <strong>{cue.emotion}</strong></span>
+          {result && mode !== 'batch' && <span className={result.match ? 'text-emerald-500' : 'text-rose-400'}>· result saved to the line</span>}
+          <span className="ml-auto flex gap-3">
+            <button onClick={onBackToScript} className="underline font-semibold">Back to script</button>
+            <button onClick={onDetachLine} className="underline text-faint">Detach</button>
+          </span>
+        </div>
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div className={`${isDark ? 'bg-gradient-to-b from-black/80 to-black/60' : 'bg-white'} p-6 rounded-2xl border ${isDark ? 'border-white/6' : 'border-gray-100'}`}>
-          <h2 className={`${isDark ? 'text-white' : 'text-gray-900'} text-lg font-semibold`}>Video Stage</h2>
-          <div className="relative rounded-md overflow-hidden bg-black/90 border border-white/8 mt-4" style={{ minHeight: 320 }}>
-            {src ? (
-              <>
-                <video ref={videoRef} src={src} controls preload="metadata" className="w-full h-full object-contain bg-black" />
-                <button onClick={()=>videoRef.current?.play()} aria-hidden className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/10 hover:bg-white/20 p-4 rounded-full" title="Play preview"><svg width="36" height="36" viewBox="0 0 24 24" fill="none" stroke={isDark ? 'white' : 'black'} strokeWidth="1.5"><path d="M5 3v18l15-9z" /></svg></button>
-              </>
-            ) : (
-              <div className="flex flex-col items-center justify-center h-80 text-center text-gray-400 p-6">
-                <div className="text-2xl font-semibold">No video selected</div>
-                <div className="mt-2 text-sm">Upload a short clip to preview and analyze.</div>
-              </div>
-            )}
+        <div className="bg-panel p-6 rounded-2xl border border-line">
+          <div className="flex items-center justify-between">
+            <h2 className="text-fg text-lg font-semibold">Video Stage</h2>
+            <div className="flex items-center gap-1 text-sm">
+              {(['upload','rehearse','batch'] as const).map((m)=> (
+                <button key={m} onClick={()=>{ setMode(m); setResult(null); setError(''); }} aria-pressed={mode===m} className={`px-3 py-1 rounded-md capitalize ${mode===m ? 'bg-selected text-on-selected' : 'text-muted hover:bg-tint'}`}>{m}</button>
+              ))}
+            </div>
           </div>
-
-          <div className="mt-3">
-            <div className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-white/10' : 'bg-gray-200'}`}>
-              <div className="h-full bg-gradient-to-r from-purple-600 to-amber-500" style={{ width: `${progress*100}%` }} />
+          {mode === 'rehearse' ? <RehearsalStage emotion={emotion} onAnalyzed={onTakeAnalyzed} />
+          : mode === 'batch' ? <BatchQueue items={batch} intended={emotion.trim()} running={batchRunning} selectedId={selectedTake} onSelect={selectTake} onRetry={retryTake} onRemove={(item)=> setBatch((list)=> list.filter((i)=> i.id !== item.id))} />
+          : <>
+            <div className="relative rounded-md overflow-hidden bg-well border border-line mt-4" style={{ minHeight: 320 }}>
+              {src ? (
+                <>
+                  <video ref={videoRef} src={src} controls preload="metadata" className="w-full h-full object-contain bg-well" />
+                  <button onClick={()=>videoRef.current?.play()} aria-hidden className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-tint hover:bg-selected p-4 rounded-full" title="Play preview"><svg width="36" height="36" viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-fg" strokeWidth="1.5"><path d="M5 3v18l15-9z" /></svg></button>
+                </>
+              ) : (
+                <div className="flex flex-col items-center justify-center h-80 text-center text-faint p-6">
+                  <div className="text-2xl font-semibold">No video selected</div>
+                  <div className="mt-2 text-sm">Upload a clip to preview and analyze. Longer takes get a per-window emotion timeline.</div>
+                </div>
+              )}
             </div>
-            <div className="mt-2 flex items-center justify-between text-sm" style={{ color: isDark ? '#9ca3af' : '#6b7280' }}>
-              <div>{Math.floor(progress*100)}%</div>
-              <div>{file ? file.name : ''}</div>
+
+            <div className="mt-3">
+              <div className="h-2 rounded-full overflow-hidden bg-track">
+                <div className="h-full bg-gradient-to-r from-accent to-accent-2" style={{ width: `${progress*100}%` }} />
+              </div>
+              <div className="mt-2 flex items-center justify-between text-sm text-faint">
+                <div>{Math.floor(progress*100)}%</div>
+                <div>{file ? file.name : restoredName ? `${restoredName} (video not stored)` : ''}</div>
+              </div>
+              {segments.length > 0 && <EmotionTimeline segments={segments} duration={duration} progress={progress} intended={emotion} matchRate={matchRate} onSeek={(t)=>{ if(videoRef.current) videoRef.current.currentTime = t; }} />}
             </div>
-          </div>
+          </>}
         </div>
 
-        <div className={`${isDark ? 'bg-black/40' : 'bg-white/50'} p-6 rounded-2xl border ${isDark ? 'border-white/6' : 'border-gray-100'}`}>
-          <h2 className={`${isDark ? 'text-white' : 'text-gray-900'} text-lg font-semibold`}>Analyze Emotion</h2>
-          <p className={`${isDark ? 'text-gray-300' : 'text-gray-600'} text-sm mt-2`}>Tell the actor's intended emotion and run analysis.</p>
+        <div className="bg-panel p-6 rounded-2xl border border-line">
+          <h2 className="text-fg text-lg font-semibold">Analyze Emotion</h2>
+          <p className="text-muted text-sm mt-2">{mode === 'rehearse' ? 'Set the intended emotion, then record takes — each one is analyzed when you stop.' : mode === 'batch' ? 'Queue a whole folder of takes for one intended emotion and rank them by match and confidence.' : "Tell the actor's intended emotion and run analysis."}</p>
 
           <div className="mt-4 space-y-3">
-            <FileDrop accept="video/*" onFileSelected={onFileSelected} label="Upload video" theme={theme} />
-            <label className={`${isDark ? 'text-gray-300' : 'text-gray-600'} text-sm`}>Intended emotion</label>
-            <input value={emotion} onChange={(e)=>setEmotion(e.target.value)} placeholder="e.g., joy, anger, sadness" className={`w-full p-3 rounded-md ${isDark ? 'bg-black/60 text-white border border-white/8' : 'bg-white border'}`} />
-
-            <div className="flex gap-3 mt-2">
-              <button onClick={analyze} disabled={loading} className={`flex-1 py-3 rounded-lg font-semibold ${isDark ? 'bg-gradient-to-r from-purple-600 to-amber-500 text-black' : 'bg-teal-600 text-white'}`}>{loading ? 'Analyzing…' : 'Analyze'}</button>
-              <button onClick={()=>{ setFile(null); setSrc(''); setEmotion(''); setResult(null); setError(''); }} className={`px-4 py-3 rounded-lg ${isDark ? 'bg-white/5' : 'bg-white border'}`}>Clear</button>
-            </div>
+            {mode === 'upload' && <FileDrop accept="video/*" onFileSelected={onFileSelected} label="Upload video" />}
+            {mode === 'batch' && <FileDrop accept="video/*" multiple onFileSelected={()=>{}} onFilesSelected={onBatchFiles} label="Add takes" />}
+            <label className="text-muted text-sm">Intended emotion</label>
+            <input value={emotion} onChange={(e)=>setEmotion(e.target.value)} placeholder="e.g., joy, anger, sadness" className="w-full p-3 rounded-md bg-field text-fg border border-line" />
+
+            {mode === 'upload' && <div className="flex gap-3 mt-2">
+              <button onClick={analyze} disabled={loading} className="flex-1 py-3 rounded-lg font-semibold bg-gradient-to-r from-accent to-accent-2 text-on-accent">{loading ? 'Analyzing…' : 'Analyze'}</button>
+              <button onClick={()=>{ abortRef.current?.abort(); setLoading(false); setFile(null); setSrc(''); setEmotion(''); setResult(null); setError(''); setRestoredName(''); setSegments([]); setMatchRate(undefined); setDuration(0); }} className="px-4 py-3 rounded-lg bg-raised border border-line">Clear</button>
+            </div>}
+
+            {mode === 'batch' && <div className="flex gap-3 mt-2">
+              {batchRunning
+                ? <button onClick={()=>{ batchAbortRef.current?.abort(); setBatchRunning(false); }} className="flex-1 py-3 rounded-lg font-semibold bg-raised border border-line text-soft">Cancel batch</button>
+                : <button onClick={()=>runBatch(batch)} className="flex-1 py-3 rounded-lg font-semibold bg-gradient-to-r from-accent to-accent-2 text-on-accent">Analyze {batch.filter((i)=> i.status === 'queued').length || ''} queued</button>}
+              <button onClick={clearBatch} className="px-4 py-3 rounded-lg bg-raised border border-line">Clear</button>
+            </div>}
 
             {error && <div className="text-sm text-rose-400">{error}</div>}
 
-            {result && (
-              <div className={`mt-4 ${isDark ? 'bg-white/5 text-gray-100' : 'bg-gray-50 text-gray-900'} p-3 rounded-md border ${isDark ? 'border-white/6' : 'border-gray-100'}`}>
-                <div className="text-sm"><strong>Prediction:</strong> {result.predicted_emotion}</div>
-                <div className="text-sm"><strong>Confidence:</strong> {(typeof result.confidence === 'number' ? (result.confidence*100).toFixed(2) : String(result.confidence)) + '%'}</div>
-                <div className="text-sm"><strong>Match:</strong> {result.match ? 'Yes' : 'No'}</div>
-                {result.recommendations && <div className="mt-2 text-sm whitespace-pre-wrap">{typeof result.recommendations === 'object' ? (result.recommendations.full_recommendation || JSON.stringify(result.recommendations, null, 2)) : result.recommendations}</div>}
-              </div>
-            )}
+            {result && <RecommendationsPanel result={result} intended={emotion} />}
           </div>
         </div>
       </div>
@@ -309,39 +509,38 @@ export function EmotionDetector({ theme }:{ theme:Theme }){
 }
 
 // -------------------- FileDrop component (componentized)
-export function FileDrop({ accept='*/*', onFileSelected, label='Upload file', theme }:{ accept?:string; onFileSelected:(f:File|null)=>void; label?:string; theme?:Theme }){
+export function FileDrop({ accept='*/*', onFileSelected, onFilesSelected, multiple=false, label='Upload file' }:{ accept?:string; onFileSelected:(f:File|null)=>void; onFilesSelected?:(files:File[])=>void; multiple?:boolean; label?:string }){
   const inputRef = useRef<HTMLInputElement|null>(null);
   const [drag, setDrag] = useState(false);
-  const isDark = (theme ?? 'dark') === 'dark';
-  const onFiles = (files: FileList | null) => { if(!files || files.length===0) return onFileSelected(null); onFileSelected(files[0]); };
+  const onFiles = (files: FileList | File[] | null) => { if(!files || files.length===0) return onFileSelected(null); if(multiple && onFilesSelected) return onFilesSelected(Array.from(files)); onFileSelected(files[0]); };
 
   return (
     <div>
-      <label className={`block text-sm mb-2 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>{label}</label>
+      <label className="block text-sm mb-2 text-muted">{label}</label>
       <div
         onDragOver={(e)=>{ e.preventDefault(); setDrag(true); }}
         onDragLeave={()=>setDrag(false)}
-        onDrop={(e)=>{ e.preventDefault(); setDrag(false); onFiles(e.dataTransfer.files); }}
+        onDrop={(e)=>{ e.preventDefault(); setDrag(false); const dropped = Array.from(e.dataTransfer.files); if(multiple) filesFromDrop(e.dataTransfer).then(onFiles, ()=> onFiles(dropped)); else onFiles(dropped); }}
         onClick={()=> inputRef.current?.click()}
         role="button"
         tabIndex={0}
         onKeyDown={(e)=>{ if(e.key === 'Enter' || e.key === ' ') inputRef.current?.click(); }}
-        className={`w-full rounded-lg p-4 flex items-center justify-between gap-4 cursor-pointer transition border ${drag ? (isDark ? 'border-purple-500 bg-white/5' : 'border-teal-300 bg-teal-50') : (isDark ? 'border-white/6 bg-black/20' : 'border-gray-200 bg-white')}`}>
+        className={`w-full rounded-lg p-4 flex items-center justify-between gap-4 cursor-pointer transition border ${drag ? 'border-accent bg-selected' : 'border-line bg-field'}`}>
 
         <div className="flex items-center gap-3">
-          <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke={isDark ? '#e6e6e6' : '#0f172a'} strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+          <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-soft" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
             <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
             <polyline points="7 10 12 15 17 10" />
             <line x1="12" y1="15" x2="12" y2="3" />
           </svg>
 
           <div className="text-left">
-            <div className={`font-medium text-sm ${isDark ? 'text-gray-100' : 'text-gray-700'}`}>Drop file here or click to browse</div>
-            <div className={`text-xs ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>Accepts: {accept}. Max size: 50MB</div>
+            <div className="font-medium text-sm text-soft">{multiple ? 'Drop files or a folder here, or click to browse' : 'Drop file here or click to browse'}</div>
+            <div className="text-xs text-muted">Accepts: {accept}. Max size: 50MB</div>
           </div>
         </div>
 
-        <input ref={inputRef} type="file" accept={accept} className="hidden" onChange={(e)=> onFiles(e.target.files)} />
+        <input ref={inputRef} type="file" accept={accept} multiple={multiple} className="hidden" onChange={(e)=>{ onFiles(e.target.files); e.target.value = ''; }} />
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+// AI-CoDirector — tag the selected Teleprompter line with an intended emotion and send it for a take.
+
+import React, { useRef, useState } from "react";
+import { DialogueBlock, LineTag, lineStatus, suggestEmotion } from "../lib/coverage";
+import { emotionColor, EMOTIONS } from "../lib/emotions";
+import { validateVideoFile } from "../lib/media";
+import { confidencePct } from "../lib/recommendations";
+
+export function LineTagger({ block, tag, onTag, onTake, onClose }:{ block:DialogueBlock; tag?:LineTag; onTag:(tag:LineTag | null)=>void; onTake:(emotion:string, file?:File)=>void; onClose:()=>void }){
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [error, setError] = useState('');
+  const suggestion = suggestEmotion(block);
+  const emotion = tag?.emotion ?? '';
+  const result = tag?.take?.result;
+  const status = lineStatus(tag);
+  const chip = (active: boolean)=> `px-2 py-1 rounded-md text-xs capitalize flex items-center gap-1 ${active ? 'bg-selected text-on-selected' : 'bg-raised border border-line text-muted hover:bg-tint'}`;
+  const action = `px-3 py-1.5 rounded-md text-sm font-semibold disabled:opacity-40`;
+
+  const onFile = (f?: File)=>{
+    if (!f) return;
+    const invalid = validateVideoFile(f);
+    if (invalid) return setError(invalid);
+    setError(''); onTake(emotion, f);
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-md border text-sm bg-raised border-line text-soft">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-xs text-faint">{block.sceneNumber ? `Scene ${block.sceneNumber} · ` : ''}{block.character}{block.parenthetical ? ` ${block.parenthetical}` : ''}</div>
+          <div className="mt-1 line-clamp-2 italic">“{block.text}”</div>
+        </div>
+        <button onClick={onClose} aria-label="Close line tagger" className="text-xs text-faint">✕</button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-1.5">
+        {EMOTIONS.map((e)=> (
+          <button key={e} onClick={()=>onTag({ ...tag, emotion: e, suggested: e === suggestion && !tag?.emotion })} aria-pressed={emotion === e} className={chip(emotion === e)}>
+            <span className={`w-2 h-2 rounded-full ${emotionColor(e)}`} />{e}{e === suggestion && <span title="Suggested from the scene">★</span>}
+          </button>
+        ))}
+        {tag && <button onClick={()=>onTag(null)} className="ml-1 text-xs underline text-faint">Clear</button>}
+      </div>
+      {!emotion && <div className="mt-2 text-xs text-faint">Suggested from the scene: <button onClick={()=>onTag({ emotion: suggestion, suggested: true })} className="underline capitalize">{suggestion}</button></div>}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button onClick={()=>onTake(emotion)} disabled={!emotion} className={`${action} bg-gradient-to-r from-accent to-accent-2 text-on-accent`}>Record take</button>
+        <button onClick={()=>inputRef.current?.click()} disabled={!emotion} className={`${action} bg-raised border border-line text-soft`}>Attach take…</button>
+        <input ref={inputRef} type="file" accept="video/*" className="hidden" onChange={(e)=>{ onFile(e.target.files?.[0]); e.target.value = ''; }} />
+        {result && (
+          <span className={`ml-auto text-xs ${status === 'hit' ? 'text-emerald-500' : 'text-rose-400'}`}>
+            {tag?.take?.videoName}: read as <span className="capitalize">{result.predicted_emotion}</span> ({confidencePct(result.confidence).toFixed(0)}%) {status === 'hit' ? '✓' : '✗'}
+          </span>
+        )}
+      </div>
+      {error && <div className="mt-2 text-xs text-rose-400">{error}</div>}
+    </div>
+  );
+}
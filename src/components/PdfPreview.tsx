@@ -0,0 +1,92 @@
+// AI-CoDirector — in-browser PDF extraction preview: per-page text, page-range selection and
+// scanned-page warnings, before the text is handed to the editor.
+
+import React, { useEffect, useState } from "react";
+import { extractPdf, formatPageRange, parsePageRange, PdfPage, selectedText } from "../lib/pdfText";
+
+export function PdfPreview({ file, onUseText, onSendPdf, onCancel }:{ file:File; onUseText:(text:string)=>void; onSendPdf:()=>void; onCancel:()=>void }){
+  const [pages, setPages] = useState<PdfPage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [reading, setReading] = useState(true);
+  const [error, setError] = useState('');
+  const [selection, setSelection] = useState<number[]>([]);
+  const [range, setRange] = useState('');
+  const [open, setOpen] = useState<number | null>(null);
+
+  useEffect(()=>{
+    const ctrl = new AbortController();
+    setPages([]); setTotal(0); setReading(true); setError(''); setSelection([]); setRange(''); setOpen(null);
+    extractPdf(file, { signal: ctrl.signal, onPage: (page, n)=>{ setTotal(n); setPages((list)=> [...list, page]); } })
+      .then((all)=>{
+        // Scanned and blank pages start unselected; there is nothing to send from them
+        const usable = all.filter((p)=> p.status === 'ok').map((p)=> p.number);
+        setSelection(usable); setRange(formatPageRange(usable));
+      }, (e)=>{ if (!ctrl.signal.aborted) setError(`Could not read this PDF in the browser (${e?.message || e}).`); })
+      .finally(()=>{ if (!ctrl.signal.aborted) setReading(false); });
+    return ()=> ctrl.abort();
+  }, [file]);
+
+  const onRange = (value: string)=>{
+    setRange(value);
+    const parsed = parsePageRange(value, total);
+    if (parsed) setSelection(parsed);
+  };
+  const toggle = (n: number)=>{
+    const next = selection.includes(n) ? selection.filter((x)=> x !== n) : [...selection, n].sort((a, b)=> a - b);
+    setSelection(next); setRange(formatPageRange(next));
+  };
+
+  const scanned = pages.filter((p)=> p.status === 'scanned');
+  const rangeValid = !range.trim() || !!parsePageRange(range, total);
+  const text = selectedText(pages, selection);
+  const btn = `px-3 py-1.5 rounded-md text-sm font-semibold disabled:opacity-40`;
+
+  return (
+    <div className="p-3 rounded-md border text-sm bg-raised border-line text-soft">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium truncate" title={file.name}>{file.name}</div>
+        <button onClick={onCancel} aria-label="Remove PDF" className="text-xs text-faint">✕</button>
+      </div>
+      <div className="text-xs mt-1 text-faint">{reading ? `Reading page ${pages.length + 1}${total ? ` of ${total}` : ''}…` : error ? '' : `${total} page${total === 1 ? '' : 's'} · ${text.length.toLocaleString()} characters selected`}</div>
+
+      {error && <div className="mt-2 text-xs text-rose-400">{error}</div>}
+
+      {scanned.length > 0 && (
+        <div className="mt-2 p-2 rounded text-xs bg-amber-500/15 text-amber-600">
+          {scanned.length === total ? 'This PDF looks scanned — its pages are images with no text layer.' : `Page${scanned.length === 1 ? '' : 's'} ${formatPageRange(scanned.map((p)=> p.number))} look${scanned.length === 1 ? 's' : ''} scanned (image only) and have no extractable text.`}
+          {' '}Use a searchable PDF, type those pages in, or send the PDF to the server as before.
+        </div>
+      )}
+
+      {total > 0 && (
+        <div className="mt-3 flex items-center gap-2">
+          <label htmlFor="pdf-range" className="text-xs text-faint">Pages</label>
+          <input id="pdf-range" value={range} onChange={(e)=>onRange(e.target.value)} placeholder={`1-${total}`} disabled={reading}
+            className={`flex-1 p-1.5 rounded-md text-sm ${rangeValid ? '' : 'ring-1 ring-rose-500'} bg-field text-fg border border-line`} />
+        </div>
+      )}
+      {!rangeValid && <div className="mt-1 text-xs text-rose-400">Use pages between 1 and {total}, e.g. 1-3, 5, 8-</div>}
+
+      <ul className="mt-2 max-h-56 overflow-auto space-y-1">
+        {pages.map((p)=> (
+          <li key={p.number} className="rounded bg-well">
+            <div className="flex items-center gap-2 px-2 py-1">
+              <input type="checkbox" checked={selection.includes(p.number)} onChange={()=>toggle(p.number)} aria-label={`Include page ${p.number}`} />
+              <button onClick={()=>setOpen(open === p.number ? null : p.number)} className="flex-1 flex items-center gap-2 text-left min-w-0">
+                <span className="text-xs font-semibold w-12 shrink-0">Page {p.number}</span>
+                <span className="text-xs truncate text-faint">{p.status === 'ok' ? p.text.split('\n').find((l)=> l.trim()) : ''}</span>
+                {p.status !== 'ok' && <span className={`ml-auto text-[11px] px-1.5 rounded ${p.status === 'scanned' ? 'bg-amber-500/20 text-amber-600' : `text-faint border`}`}>{p.status === 'scanned' ? 'scanned' : 'blank'}</span>}
+              </button>
+            </div>
+            {open === p.number && <pre className="px-2 pb-2 text-xs font-mono whitespace-pre-wrap max-h-48 overflow-auto text-soft">{p.text || '(no text on this page)'}</pre>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button onClick={()=>onUseText(text)} disabled={reading || !text.trim() || !rangeValid} className={`${btn} bg-gradient-to-r from-accent to-accent-2 text-on-accent`}>Edit selected text</button>
+        <button onClick={onSendPdf} disabled={reading} className={`${btn} text-muted underline`}>Send PDF to server instead</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+// AI-CoDirector — project history sidebar: browse, search, rename, reopen, duplicate, delete.
+
+import React, { useRef, useState } from "react";
+import { deleteEntry, duplicateEntry, ProjectEntry, renameEntry, searchEntries, useProjectEntries } from "../lib/projectStore";
+
+export function ProjectSidebar({ activeId, onOpen, onDeleted }:{ activeId?:string; onOpen:(entry:ProjectEntry)=>void; onDeleted?:(id:string)=>void }){
+  const { entries, error } = useProjectEntries();
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ id:string; name:string } | null>(null);
+  const [actionError, setActionError] = useState('');
+  const visible = searchEntries(entries, query);
+
+  // Enter commits and the blur that follows must not commit again, so the pending rename is taken from a ref
+  const editingRef = useRef(editing);
+  const edit = (next: { id:string; name:string } | null)=>{ editingRef.current = next; setEditing(next); };
+  const commitRename = async ()=>{
+    const target = editingRef.current; edit(null);
+    if (!target) return;
+    await renameEntry(target.id, target.name).then(()=> setActionError(''), ()=> setActionError('Could not rename the entry.'));
+  };
+  const duplicate = (entry: ProjectEntry)=> duplicateEntry(entry.id).then(()=> setActionError(''), ()=> setActionError(`Could not duplicate "${entry.name}".`));
+  const remove = async (entry: ProjectEntry)=>{
+    if (!window.confirm(`Delete "${entry.name}"?`)) return;
+    try { await deleteEntry(entry.id); setActionError(''); onDeleted?.(entry.id); }
+    catch { setActionError(`Could not delete "${entry.name}".`); }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h4 className="text-soft">Project</h4>
+        <span className="text-xs text-faint">{entries.length} saved</span>
+      </div>
+      <input value={query} onChange={(e)=>setQuery(e.target.value)} placeholder="Search history" aria-label="Search history" className="mt-3 w-full p-2 text-sm rounded-md bg-field text-fg border border-line placeholder-faint" />
+
+      {(error || actionError) && <div className="mt-3 text-sm text-rose-400">{error || actionError}</div>}
+      {!error && visible.length === 0 && (
+        <p className="mt-3 text-sm text-muted">{entries.length ? 'No matches.' : 'Generated scripts and analyses will be saved here.'}</p>
+      )}
+
+      <ul className="mt-3 space-y-2 max-h-[28rem] overflow-auto">
+        {visible.map((entry)=> (
+          <li key={entry.id} className={`p-2 rounded-md border ${entry.id === activeId ? 'border-accent bg-selected' : 'border-line'}`}>
+            {editing?.id === entry.id ? (
+              <input autoFocus value={editing.name} onChange={(e)=>edit({ id: entry.id, name: e.target.value })} onBlur={commitRename}
+                onKeyDown={(e)=>{ if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') edit(null); }}
+                className="w-full p-1 text-sm rounded bg-field text-fg border border-line" />
+            ) : (
+              <button onClick={()=>onOpen(entry)} className="block w-full text-left" title="Reopen">
+                <div className="text-sm font-medium truncate text-soft">{entry.name}</div>
+                <div className="text-xs text-faint">
+                  {entry.kind === 'script' ? `Script · ${entry.input.genre}` : `Analysis · ${entry.output.predicted_emotion}`} · {new Date(entry.updatedAt).toLocaleString()}
+                </div>
+              </button>
+            )}
+            <div className="mt-1 flex gap-3 text-xs text-faint">
+              <button onClick={()=>edit({ id: entry.id, name: entry.name })} className="hover:underline">Rename</button>
+              <button onClick={()=>duplicate(entry)} className="hover:underline">Duplicate</button>
+              <button onClick={()=>remove(entry)} className="hover:underline text-rose-400">Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
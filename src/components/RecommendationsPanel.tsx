@@ -0,0 +1,114 @@
+// AI-CoDirector — rendered analysis result: confidence gauge, intended-vs-predicted gap,
+// coaching notes grouped by voice / face / body and the full recommendation as markdown.
+
+import React from "react";
+import Markdown, { Components } from "react-markdown";
+import type { EmotionResult } from "../lib/api";
+import { emotionColor } from "../lib/emotions";
+import { COACHING_AREAS, confidencePct, cuesFor, emotionGap, parseRecommendations } from "../lib/recommendations";
+
+function ConfidenceGauge({ value, match }:{ value:number; match:boolean }){
+  // Half-circle arc; the dash offset fills it in proportion to confidence
+  const r = 40; const len = Math.PI * r;
+  return (
+    <div className="relative w-28 shrink-0" role="meter" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(value)} aria-label="Confidence">
+      <svg viewBox="0 0 100 56" className="w-full">
+        <path d="M10 50 A40 40 0 0 1 90 50" fill="none" strokeWidth="9" strokeLinecap="round" className="stroke-track" />
+        <path d="M10 50 A40 40 0 0 1 90 50" fill="none" strokeWidth="9" strokeLinecap="round" stroke={match ? '#10b981' : '#f59e0b'} strokeDasharray={len} strokeDashoffset={len * (1 - value / 100)} />
+      </svg>
+      <div className="absolute inset-x-0 bottom-0 text-center text-lg font-bold text-fg">{value.toFixed(1)}%</div>
+    </div>
+  );
+}
+
+export function RecommendationsPanel({ result, intended }:{ result:EmotionResult; intended:string }){
+  const rec = parseRecommendations(result.recommendations);
+  const gap = emotionGap(result, intended);
+  const cues = !result.match ? cuesFor(gap.intended) : null;
+  const heading = 'text-xs uppercase tracking-widest mb-2 text-faint';
+  const box = 'p-3 rounded-md border bg-tint border-line';
+  const md: Components = {
+    h1: ({ children })=> <h4 className="font-semibold mt-3 mb-1">{children}</h4>,
+    h2: ({ children })=> <h4 className="font-semibold mt-3 mb-1">{children}</h4>,
+    h3: ({ children })=> <h5 className="font-semibold mt-2 mb-1">{children}</h5>,
+    p: ({ children })=> <p className="mb-2 leading-relaxed">{children}</p>,
+    ul: ({ children })=> <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+    ol: ({ children })=> <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+    strong: ({ children })=> <strong className="text-fg">{children}</strong>,
+    a: ({ href, children })=> <a href={href} target="_blank" rel="noreferrer" className="underline">{children}</a>,
+  };
+  const bar = (label: string, pct: number | undefined, emotion: string)=> (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-20 capitalize text-faint">{label}</span>
+      <div className="flex-1 h-2 rounded-full overflow-hidden bg-track">
+        <div className={`h-full rounded-full ${emotionColor(emotion)}`} style={{ width: `${pct ?? 0}%` }} />
+      </div>
+      <span className="w-12 text-right">{pct !== undefined ? `${pct.toFixed(1)}%` : '—'}</span>
+    </div>
+  );
+
+  return (
+    <div className="mt-4 space-y-3 text-sm text-soft">
+      <div className={`${box} flex items-center gap-4`}>
+        <ConfidenceGauge value={confidencePct(result.confidence)} match={result.match} />
+        <div className="min-w-0">
+          <div className={heading}>Predicted</div>
+          <div className="text-xl font-bold capitalize">{result.predicted_emotion}</div>
+          <span className={`inline-block mt-1 px-2 py-0.5 rounded text-xs font-semibold ${result.match ? 'bg-emerald-500/15 text-emerald-500' : 'bg-rose-500/15 text-rose-400'}`}>{result.match ? 'Match' : 'Mismatch'}</span>
+        </div>
+      </div>
+
+      {gap.intended && (
+        <div className={box}>
+          <div className={heading}>Intended vs predicted</div>
+          <div>
+            {gap.match || gap.intended === gap.predicted
+              ? <>Reads as intended: <strong className="capitalize">{gap.intended}</strong>.</>
+              : <>Intended <strong className="capitalize">{gap.intended}</strong>, but the take reads as <strong className="capitalize">{gap.predicted}</strong>{gap.intendedRank ? ` — ${gap.intended} ranked #${gap.intendedRank}` : ''}.</>}
+          </div>
+          {(gap.intendedPct !== undefined || gap.predictedPct !== undefined) && (
+            <div className="mt-2 space-y-1">
+              {bar(gap.intended, gap.intendedPct, gap.intended)}
+              {gap.predicted !== gap.intended && bar(gap.predicted, gap.predictedPct, gap.predicted)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {rec?.summary && <div className={`${box} font-medium`}>{rec.summary}</div>}
+
+      {rec && (rec.voice.length > 0 || rec.face.length > 0 || rec.body.length > 0 || rec.general.length > 0) && (
+        <div className={box}>
+          <div className={heading}>Notes for the actor</div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {COACHING_AREAS.filter(({ area })=> rec[area].length > 0).map(({ area, label })=> (
+              <div key={area}>
+                <div className="font-semibold mb-1">{label}</div>
+                <ul className="list-disc pl-4 space-y-1">{rec[area].map((n, i)=> <li key={i}>{n}</li>)}</ul>
+              </div>
+            ))}
+          </div>
+          {rec.general.length > 0 && <ul className="list-disc pl-4 mt-3 space-y-1">{rec.general.map((n, i)=> <li key={i}>{n}</li>)}</ul>}
+        </div>
+      )}
+
+      {cues && (
+        <div className={box}>
+          <div className={heading}>How <span className="capitalize">{gap.intended}</span> usually reads</div>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            {COACHING_AREAS.map(({ area, label })=> <React.Fragment key={area}><dt className="font-semibold">{label}</dt><dd>{cues[area]}</dd></React.Fragment>)}
+          </dl>
+        </div>
+      )}
+
+      {rec?.full ? (
+        <details className={box} open={!rec.voice.length && !rec.face.length && !rec.body.length && !rec.general.length}>
+          <summary className={`cursor-pointer ${heading} mb-0`}>Full recommendation</summary>
+          <div className="mt-2"><Markdown components={md}>{rec.full}</Markdown></div>
+        </details>
+      ) : !rec && (
+        <div className={`${box} text-faint`}>{result.match ? 'Great job! The performance matches the intended emotion.' : 'No specific recommendations provided.'}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { analyzeEmotion } from '../lib/api';
+import type { MediaDeps } from '../lib/media';
+import { RehearsalStage, Take } from './RehearsalStage';
+
+jest.mock('../lib/api', () => ({ ...jest.requireActual('../lib/api'), analyzeEmotion: jest.fn() }));
+
+// Minimal MediaRecorder stand-in: stop() flushes one chunk, then fires onstop
+class FakeRecorder {
+  static isTypeSupported = (t: string) => t === 'video/webm';
+  state = 'inactive';
+  mimeType = 'video/webm';
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  start() { this.state = 'recording'; }
+  stop() { this.state = 'inactive'; this.ondataavailable?.({ data: new Blob(['frame'], { type: 'video/webm' }) }); this.onstop?.(); }
+}
+
+const stream = { getTracks: () => [{ stop: () => {} }] } as unknown as MediaStream;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  URL.createObjectURL = jest.fn(() => 'blob:take');
+  URL.revokeObjectURL = jest.fn();
+  // jsdom has no media playback
+  jest.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue();
+});
+
+afterEach(() => { jest.useRealTimers(); jest.restoreAllMocks(); });
+
+test('counts down, records a take and analyzes it on stop', async () => {
+  (analyzeEmotion as jest.Mock).mockResolvedValue({ predicted_emotion: 'joy', confidence: 0.82, match: true });
+  const deps = { getUserMedia: jest.fn().mockResolvedValue(stream), MediaRecorder: FakeRecorder as unknown as MediaDeps['MediaRecorder'] };
+  const analyzed: Take[] = [];
+  render(<RehearsalStage emotion="joy" deps={deps} onAnalyzed={(t) => analyzed.push(t)} />);
+
+  fireEvent.click(screen.getByText('Enable camera'));
+  fireEvent.click(await screen.findByText('Record take 1'));
+  expect(screen.getByText('3')).toBeInTheDocument();
+  act(() => { jest.advanceTimersByTime(2000); });
+  expect(screen.getByText('1')).toBeInTheDocument();
+
+  // The last tick starts recording, with "Action" over its first second
+  await act(async () => { jest.advanceTimersByTime(1000); });
+  expect(screen.getByText('Action')).toBeInTheDocument();
+  expect(screen.getByText(/REC · Take 1/)).toBeInTheDocument();
+  act(() => { jest.advanceTimersByTime(1000); });
+  expect(screen.queryByText('Action')).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByText('Stop'));
+  expect(await screen.findByText('82.0%')).toBeInTheDocument();
+  expect(analyzeEmotion).toHaveBeenCalledWith(expect.objectContaining({ intendedEmotion: 'joy' }), expect.anything());
+  expect(analyzed).toHaveLength(1);
+  expect(analyzed[0]).toMatchObject({ number: 1, status: 'done', result: { predicted_emotion: 'joy' } });
+  expect(screen.getByText('Record take 2')).toBeInTheDocument();
+});
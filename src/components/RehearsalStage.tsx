@@ -0,0 +1,148 @@
+// AI-CoDirector — live webcam rehearsal: countdown, record a take, auto-analyze on stop,
+// and keep every take's result side by side for comparison.
+
+import React, { useEffect, useRef, useState } from "react";
+import { analyzeEmotion, describeApiError, EmotionResult } from "../lib/api";
+import { countdown, MediaDeps, openCamera, recordTake, stopStream, TakeRecording, validateVideoFile } from "../lib/media";
+import { confidencePct } from "../lib/recommendations";
+
+export type Take = { id: string; number: number; file: File; url: string; emotion: string; status: 'analyzing' | 'done' | 'error'; result?: EmotionResult; error?: string };
+
+type Phase = 'off' | 'preview' | 'countdown' | 'recording';
+
+const message = (e: unknown) => (e as Error)?.message || String(e);
+
+export function RehearsalStage({ emotion, onAnalyzed, deps }:{ emotion:string; onAnalyzed?:(take:Take)=>void; deps?:MediaDeps }){
+  const [phase, setPhase] = useState<Phase>('off');
+  const [count, setCount] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [playing, setPlaying] = useState<Take | null>(null);
+  const [error, setError] = useState('');
+  const streamRef = useRef<MediaStream | null>(null);
+  const recRef = useRef<TakeRecording | null>(null);
+  const abortRef = useRef<AbortController>(new AbortController());
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const takesRef = useRef<Take[]>([]);
+  takesRef.current = takes;
+
+  // Release camera, pending analyses and take URLs on unmount
+  useEffect(()=> ()=>{ abortRef.current.abort(); recRef.current?.stop(); stopStream(streamRef.current); takesRef.current.forEach((t)=> URL.revokeObjectURL(t.url)); }, []);
+
+  // Live preview while the camera is on and no recorded take is selected
+  useEffect(()=>{
+    const v = videoRef.current; if (!v) return;
+    if (playing) { v.srcObject = null; v.src = playing.url; v.muted = false; }
+    else if (streamRef.current) { v.removeAttribute('src'); v.srcObject = streamRef.current; v.muted = true; v.play().catch(()=>{}); }
+  }, [playing, phase]);
+
+  useEffect(()=>{
+    if (phase !== 'recording') return;
+    const started = Date.now(); setElapsed(0);
+    const timer = setInterval(()=> setElapsed(Math.floor((Date.now() - started) / 1000)), 250);
+    return ()=> clearInterval(timer);
+  }, [phase]);
+
+  const enableCamera = async ()=>{
+    setError('');
+    try { streamRef.current = await openCamera(deps); setPlaying(null); setPhase('preview'); }
+    catch (e) { setError((e as Error)?.name === 'NotAllowedError' ? 'Camera permission was denied.' : message(e)); }
+  };
+
+  const closeCamera = ()=>{ recRef.current?.stop(); stopStream(streamRef.current); streamRef.current = null; setPhase('off'); };
+
+  const analyzeTake = async (take: Take)=>{
+    const update = (patch: Partial<Take>)=> setTakes((list)=> list.map((t)=> t.id === take.id ? { ...t, ...patch } : t));
+    update({ status: 'analyzing', error: undefined });
+    try {
+      const result = await analyzeEmotion({ video: take.file, intendedEmotion: take.emotion }, { signal: abortRef.current.signal });
+      update({ status: 'done', result });
+      onAnalyzed?.({ ...take, status: 'done', result });
+    } catch (e) {
+      const msg = describeApiError(e);
+      if (msg) update({ status: 'error', error: msg });
+    }
+  };
+
+  const record = async ()=>{
+    if (!streamRef.current) return;
+    if (!emotion.trim()) return setError('Enter the intended emotion before recording.');
+    setError(''); setPlaying(null); setPhase('countdown');
+    await countdown(3, setCount);
+    if (!streamRef.current) return;
+    const number = takes.length + 1;
+    let rec: TakeRecording;
+    try { rec = recordTake(streamRef.current, number, deps); }
+    catch (e) { setPhase('preview'); return setError(message(e)); }
+    recRef.current = rec; setElapsed(0); setPhase('recording');
+    let file: File;
+    try { file = await rec.done; }
+    catch (e) { setPhase(streamRef.current ? 'preview' : 'off'); return setError(message(e)); }
+    recRef.current = null; setPhase(streamRef.current ? 'preview' : 'off');
+
+    const invalid = validateVideoFile(file);
+    if (invalid) return setError(`Take ${number}: ${invalid}`);
+    const take: Take = { id: `${Date.now()}-${number}`, number, file, url: URL.createObjectURL(file), emotion: emotion.trim(), status: 'analyzing' };
+    setTakes((list)=> [...list, take]);
+    analyzeTake(take);
+  };
+
+  const best = takes.filter((t)=> t.result?.match).sort((a, b)=> b.result!.confidence - a.result!.confidence)[0];
+  const btn = `px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-40`;
+  const primary = `${btn} bg-gradient-to-r from-accent to-accent-2 text-on-accent`;
+  const secondary = `${btn} bg-raised border border-line text-soft`;
+
+  return (
+    <div>
+      <div className="relative rounded-md overflow-hidden bg-well border border-line mt-4" style={{ minHeight: 320 }}>
+        {phase !== 'off' || playing ? (
+          <video ref={videoRef} playsInline controls={!!playing} className="w-full h-full object-contain bg-well" style={{ transform: playing ? undefined : 'scaleX(-1)' }} />
+        ) : (
+          <div className="flex flex-col items-center justify-center h-80 text-center text-faint p-6">
+            <div className="text-2xl font-semibold">Camera off</div>
+            <div className="mt-2 text-sm">Enable the camera to rehearse and record takes.</div>
+          </div>
+        )}
+        {/* The countdown resolves on its last tick, so "Action" shows over the first second of the take */}
+        {(phase === 'countdown' || (phase === 'recording' && elapsed === 0)) && <div className="absolute inset-0 flex items-center justify-center text-7xl font-extrabold text-fg bg-panel pointer-events-none">{phase === 'countdown' && count ? count : 'Action'}</div>}
+        {phase === 'recording' && (
+          <div className="absolute top-3 left-3 flex items-center gap-2 px-2 py-1 rounded bg-panel text-fg text-xs font-semibold">
+            <span className="w-2.5 h-2.5 rounded-full bg-rose-600 animate-pulse" /> REC · Take {takes.length + 1} · {elapsed}s
+          </div>
+        )}
+        {playing && <div className="absolute top-3 left-3 px-2 py-1 rounded bg-panel text-fg text-xs">Playing take {playing.number}</div>}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {phase === 'off' && <button onClick={enableCamera} className={primary}>Enable camera</button>}
+        {phase === 'preview' && <button onClick={record} className={primary}>Record take {takes.length + 1}</button>}
+        {phase === 'recording' && <button onClick={()=> recRef.current?.stop()} className={`${btn} bg-rose-600 text-white`}>Stop</button>}
+        {playing && phase !== 'off' && <button onClick={()=>setPlaying(null)} className={secondary}>Back to camera</button>}
+        {phase !== 'off' && phase !== 'recording' && <button onClick={closeCamera} className={secondary}>Close camera</button>}
+        <span className="ml-auto text-xs text-faint">{takes.length} take{takes.length === 1 ? '' : 's'}</span>
+      </div>
+
+      {error && <div className="mt-2 text-sm text-rose-400">{error}</div>}
+
+      {takes.length > 0 && (
+        <table className="mt-4 w-full text-sm text-soft">
+          <thead className="text-xs text-left text-faint">
+            <tr><th className="py-1">Take</th><th>Intended</th><th>Predicted</th><th>Confidence</th><th>Match</th><th /></tr>
+          </thead>
+          <tbody>
+            {takes.map((t)=> (
+              <tr key={t.id} className={`border-t border-line ${best?.id === t.id ? 'bg-selected' : ''}`}>
+                <td className="py-2"><button onClick={()=>setPlaying(t)} className="underline" title="Play take">#{t.number}</button>{best?.id === t.id && <span className="ml-1 text-xs">★</span>}</td>
+                <td className="capitalize">{t.emotion}</td>
+                <td className="capitalize">{t.status === 'analyzing' ? 'Analyzing…' : t.result?.predicted_emotion ?? '—'}</td>
+                <td>{t.result ? `${confidencePct(t.result.confidence).toFixed(1)}%` : ''}</td>
+                <td>{t.result ? (t.result.match ? 'Yes' : 'No') : t.error ? <span className="text-rose-400" title={t.error}>Failed</span> : ''}</td>
+                <td className="text-right">{t.status === 'error' && <button onClick={()=>analyzeTake(t)} className="text-xs underline">Retry</button>}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+// AI-CoDirector — formatted screenplay renderer for the Teleprompter.
+// Lays elements out on a 6" text column (Courier 12pt = 10 chars/inch), so
+// indents from LAYOUT map directly onto `ch` units.
+
+import React, { useMemo } from "react";
+import { LAYOUT, Screenplay, ScriptElement } from "../lib/screenplay";
+import { DialogueBlock, dialogueBlocks, LineTag, lineStatus } from "../lib/coverage";
+import { emotionColor } from "../lib/emotions";
+
+const CH_PER_INCH = 10;
+
+/** Dialogue blocks become selectable and carry an emotion badge when `lines` is passed. */
+export type LineAnnotations = { tags: Record<string, LineTag>; selectedKey?: string; onSelect: (block: DialogueBlock) => void };
+
+export function ScriptPage({ doc, lines }:{ doc:Screenplay; lines?:LineAnnotations }){
+  const titleKeys = Object.keys(doc.titlePage);
+  const annotate = !!lines;
+  const blockOf = useMemo(()=> new Map(annotate ? dialogueBlocks(doc).flatMap((b)=> b.ids.map((id)=> [id, b] as const)) : []), [doc, annotate]);
+
+  return (
+    <div className="font-mono text-[0.875em] leading-snug mx-auto text-soft" style={{ maxWidth: `${6 * CH_PER_INCH + 12}ch` }}>
+      {titleKeys.length > 0 && (
+        <div className="text-center pb-6 mb-6 border-b border-line">
+          {doc.titlePage.title && <div className="font-bold uppercase whitespace-pre-wrap">{doc.titlePage.title}</div>}
+          {titleKeys.filter((k) => k !== 'title').map((k) => (
+            <div key={k} className="mt-1 whitespace-pre-wrap text-faint">{doc.titlePage[k]}</div>
+          ))}
+        </div>
+      )}
+      {doc.elements.map((el) => {
+        const block = blockOf.get(el.id);
+        if (!block || !lines) return <ScriptLine key={el.id} el={el} />;
+        const selected = lines.selectedKey === block.key;
+        return (
+          <div key={el.id} onClick={()=>lines.onSelect(block)} className={`cursor-pointer ${selected ? 'bg-selected' : 'hover:bg-tint'}`}>
+            <ScriptLine el={el} badge={el.id === block.ids[0] ? <LineBadge tag={lines.tags[block.key]} /> : undefined} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function LineBadge({ tag }:{ tag?:LineTag }){
+  const status = lineStatus(tag);
+  if (!tag || status === 'untagged') return null;
+  const result = tag.take?.result;
+  const title = result ? `Intended ${tag.emotion} · read as ${result.predicted_emotion}${result.match ? '' : ' (miss)'}` : `Intended ${tag.emotion} · no take yet`;
+  return (
+    <span title={title} className="ml-2 inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] leading-none font-sans normal-case bg-raised text-fg border border-line align-middle">
+      <span className={`w-2 h-2 rounded-full ${emotionColor(tag.emotion)}`} />{tag.emotion}
+      {status === 'hit' && <span className="text-emerald-400">✓</span>}
+      {status === 'miss' && <span className="text-rose-400">✗ {result?.predicted_emotion}</span>}
+    </span>
+  );
+}
+
+function ScriptLine({ el, badge }:{ el:ScriptElement; badge?:React.ReactNode }){
+  const { indent, width, align } = LAYOUT[el.type];
+  const style: React.CSSProperties = { marginLeft: `${indent * CH_PER_INCH + 6}ch`, width: `${width * CH_PER_INCH}ch`, textAlign: align ?? 'left' };
+
+  switch (el.type) {
+    case 'scene_heading':
+      return (
+        <div id={el.id} className="relative mt-6 mb-3 font-bold uppercase" style={style}>
+          <span className="absolute select-none text-faint" style={{ right: '100%', marginRight: '2ch' }}>{el.sceneNumber}</span>
+          {el.text}
+          <span className="absolute select-none text-faint" style={{ left: '100%', marginLeft: '2ch' }}>{el.sceneNumber}</span>
+        </div>
+      );
+    case 'character':
+      return <div id={el.id} className="mt-3 uppercase" style={{ ...style, width: badge ? undefined : style.width }}>{el.text}{badge}</div>;
+    case 'parenthetical':
+    case 'dialogue':
+      return <div id={el.id} className="whitespace-pre-wrap" style={style}>{el.text}</div>;
+    case 'transition':
+      return <div id={el.id} className="my-3 uppercase" style={style}>{el.text}</div>;
+    case 'page_break':
+      return <hr id={el.id} className="my-6 border-dashed border-line" />;
+    default:
+      return <div id={el.id} className="my-3 whitespace-pre-wrap" style={style}>{el.text}</div>;
+  }
+}
@@ -0,0 +1,90 @@
+// AI-CoDirector — style preset picker and editor for the Script Writer, with JSON import / export.
+
+import React, { useRef, useState } from "react";
+import { BUILT_IN_PRESETS, deletePreset, describePreset, downloadPresets, importPresets, listPresets, PACING, savePreset, StylePreset, TONE_SUGGESTIONS } from "../lib/stylePresets";
+
+export function StylePresets({ presets, value, disabled, onChange, onPresetsChange }:{ presets:StylePreset[]; value:StylePreset; disabled?:boolean; onChange:(preset:StylePreset)=>void; onPresetsChange:(presets:StylePreset[])=>void }){
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [notice, setNotice] = useState<{ text: string; error?: boolean } | null>(null);
+  const options = presets.some((p)=> p.id === value.id) ? presets : [...presets, value];
+  const own = presets.filter((p)=> !p.builtIn);
+  const link = 'text-xs underline disabled:opacity-40 text-faint';
+  const input = 'w-full p-2 rounded-md text-sm bg-field text-fg border border-line placeholder-faint';
+
+  const refresh = (select?: StylePreset)=>{ const next = listPresets(); onPresetsChange(next); if (select) onChange(select); };
+  const set = (patch: Partial<StylePreset>)=> setDraft((d)=> d && { ...d, ...patch });
+
+  const save = ()=>{
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.genre.trim()) return setNotice({ text: 'A preset needs a name and a genre.', error: true });
+    let saved: StylePreset;
+    try { saved = savePreset(draft); }
+    catch (e) { return setNotice({ text: `Could not save the preset: ${(e as Error).message}.`, error: true }); }
+    setDraft(null); setNotice(null); refresh(saved);
+  };
+  const remove = ()=>{
+    if (!draft || draft.builtIn || !window.confirm(`Delete the preset "${draft.name}"?`)) return;
+    try { deletePreset(draft.id); }
+    catch (e) { return setNotice({ text: `Could not delete the preset: ${(e as Error).message}.`, error: true }); }
+    setDraft(null);
+    refresh(value.id === draft.id ? BUILT_IN_PRESETS[0] : undefined);
+  };
+  const onImport = async (f?: File)=>{
+    if (!f) return;
+    try {
+      const added = importPresets(await f.text());
+      setNotice({ text: `Imported ${added.length} preset${added.length === 1 ? '' : 's'} from ${f.name}.` });
+      refresh(added[0]);
+    } catch (e) {
+      setNotice({ text: `Could not import ${f.name}: ${(e as Error).message}.`, error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label htmlFor="style-preset" className="text-muted text-sm">Genre &amp; style</label>
+        <div className="flex items-center gap-3">
+          <button onClick={()=>setDraft(value.builtIn ? { ...value, name: `${value.name} (custom)` } : value)} disabled={disabled} className={link}>{value.builtIn ? 'Customize' : 'Edit'}</button>
+          <button onClick={()=>setDraft({ id: '', name: '', genre: value.genre })} disabled={disabled} className={link}>New</button>
+          <button onClick={()=>fileRef.current?.click()} disabled={disabled} className={link}>Import</button>
+          <button onClick={()=>downloadPresets(own)} disabled={!own.length} className={link}>Export</button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={(e)=>{ onImport(e.target.files?.[0]); e.target.value = ''; }} />
+        </div>
+      </div>
+      <select id="style-preset" value={value.id} disabled={disabled} onChange={(e)=>{ const p = options.find((x)=> x.id === e.target.value); if (p) { onChange(p); setDraft(null); } }} className="w-full p-3 rounded-md bg-field text-fg border border-line">
+        <optgroup label="Genres">{options.filter((p)=> p.builtIn).map((p)=> <option key={p.id} value={p.id}>{p.name}</option>)}</optgroup>
+        {own.length > 0 && <optgroup label="Your presets">{own.map((p)=> <option key={p.id} value={p.id}>{p.name}</option>)}</optgroup>}
+      </select>
+      {!value.builtIn && !draft && <div className="text-xs text-faint">{describePreset(value)}{value.referenceWriters?.length ? ` · in the style of ${value.referenceWriters.join(', ')}` : ''}</div>}
+      {notice && <div className={`text-xs ${notice.error ? 'text-rose-400' : 'text-faint'}`}>{notice.text}</div>}
+
+      {draft && (
+        <div className="p-3 rounded-md border text-sm space-y-2 bg-raised border-line text-soft">
+          <div className="grid grid-cols-2 gap-2">
+            <input aria-label="Preset name" value={draft.name} onChange={(e)=>set({ name: e.target.value })} placeholder="Preset name" className={input} />
+            <input aria-label="Genre" value={draft.genre} onChange={(e)=>set({ genre: e.target.value })} placeholder="Genre, e.g. Sci-Fi, Noir" list="preset-genres" className={input} />
+            <input aria-label="Tone" value={draft.tone ?? ''} onChange={(e)=>set({ tone: e.target.value })} placeholder="Tone, e.g. wry" list="preset-tones" className={input} />
+            <select aria-label="Pacing" value={draft.pacing ?? ''} onChange={(e)=>set({ pacing: e.target.value })} className={input}>
+              <option value="">Any pacing</option>
+              {PACING.map((p)=> <option key={p} value={p}>{p}</option>)}
+            </select>
+            <input aria-label="Target length" value={draft.targetLength ?? ''} onChange={(e)=>set({ targetLength: e.target.value })} placeholder="Target length, e.g. 5 pages" className={input} />
+            <input aria-label="Era" value={draft.era ?? ''} onChange={(e)=>set({ era: e.target.value })} placeholder="Era / setting, e.g. 1970s" className={input} />
+          </div>
+          <input aria-label="Reference writers" value={draft.referenceWriters?.join(', ') ?? ''} onChange={(e)=>set({ referenceWriters: e.target.value.split(/,\s*/) })} placeholder="Reference writers, comma separated" className={input} />
+          <textarea aria-label="Notes" rows={3} value={draft.notes ?? ''} onChange={(e)=>set({ notes: e.target.value })} placeholder="House style notes, e.g. no voice-over, keep action lines under three lines" className={input} />
+          <datalist id="preset-genres">{BUILT_IN_PRESETS.map((p)=> <option key={p.id} value={p.genre} />)}</datalist>
+          <datalist id="preset-tones">{TONE_SUGGESTIONS.map((t)=> <option key={t} value={t} />)}</datalist>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={save} className="px-3 py-1.5 rounded-md text-sm font-semibold bg-gradient-to-r from-accent to-accent-2 text-on-accent">{draft.id && !draft.builtIn ? 'Save' : 'Save preset'}</button>
+            {draft.id && !draft.builtIn && <button onClick={()=>setDraft({ ...draft, id: '', name: `${draft.name} copy` })} className={link}>Duplicate</button>}
+            {draft.id && !draft.builtIn && <button onClick={remove} className="text-xs underline text-rose-400">Delete</button>}
+            <button onClick={()=>{ setDraft(null); setNotice(null); }} className={`ml-auto ${link}`}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// AI-CoDirector — theme context: applies the active theme's design tokens as CSS variables,
+// follows the system preference until a theme is picked, and cycles themes on Ctrl/Cmd+T.
+
+import React, { createContext, useContext, useEffect, useLayoutEffect, useState } from "react";
+import { nextTheme, storedTheme, storeTheme, SYSTEM_QUERIES, systemTheme, ThemeDef, ThemeName, THEMES, themeVars } from "../lib/theme";
+
+type ThemeContextValue = {
+  theme: ThemeName;
+  def: ThemeDef;
+  /** The user's pick; null while following the system */
+  choice: ThemeName | null;
+  setTheme: (theme: ThemeName | null) => void;
+};
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export function ThemeProvider({ children }:{ children:React.ReactNode }){
+  const [choice, setChoice] = useState<ThemeName | null>(storedTheme);
+  const [system, setSystem] = useState<ThemeName>(systemTheme);
+  const theme = choice ?? system;
+
+  const setTheme = (next: ThemeName | null) => { storeTheme(next); setChoice(next); };
+
+  // System changes only matter while no theme has been picked, but tracking them is cheap
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const lists = SYSTEM_QUERIES.map((q) => window.matchMedia(q));
+    const onChange = () => setSystem(systemTheme());
+    lists.forEach((l) => l.addEventListener?.('change', onChange));
+    return () => lists.forEach((l) => l.removeEventListener?.('change', onChange));
+  }, []);
+
+  // Root-level variables reach the body, scrollbars and the font scale; applied before paint to avoid a flash
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    const vars = themeVars(theme);
+    for (const [k, v] of Object.entries(vars)) root.style.setProperty(k, v);
+    root.setAttribute('data-ai-theme', theme);
+    root.style.colorScheme = THEMES[theme].scheme;
+    return () => {
+      for (const k of Object.keys(vars)) root.style.removeProperty(k);
+      root.removeAttribute('data-ai-theme');
+      root.style.colorScheme = '';
+    };
+  }, [theme]);
+
+  // Keyboard shortcut: Ctrl+T or Cmd+T to move to the next theme (accessible)
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && (e.key || '').toLowerCase() === 't') {
+        e.preventDefault();
+        setChoice((c) => { const next = nextTheme(c ?? systemTheme()); storeTheme(next); return next; });
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, []);
+
+  return (
+    <ThemeContext.Provider value={{ theme, def: THEMES[theme], choice, setTheme }}>
+      <div className="ai-theme-transition">{children}</div>
+    </ThemeContext.Provider>
+  );
+}
+
+export function useTheme(): ThemeContextValue {
+  const ctx = useContext(ThemeContext);
+  if (!ctx) throw new Error('useTheme must be used inside <ThemeProvider>');
+  return ctx;
+}
@@ -0,0 +1,82 @@
+// AI-CoDirector — side-by-side comparison of two script versions with hunk-level merge.
+
+import React, { useEffect, useMemo, useState } from "react";
+import { diffParts, HunkDecision, mergeParts, sideBySide } from "../lib/diff";
+import type { ScriptVersion } from "../lib/projectStore";
+import { scriptText } from "../lib/screenplay";
+
+export function versionLabel(v: ScriptVersion, i: number){
+  return `v${i + 1} · ${v.label || v.genre} · ${new Date(v.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export function VersionCompare({ versions, onSaveMerged }:{ versions:ScriptVersion[]; onSaveMerged:(text:string, base:ScriptVersion)=>void }){
+  const [leftId, setLeftId] = useState(versions[versions.length - 2]?.id);
+  const [rightId, setRightId] = useState(versions[versions.length - 1]?.id);
+  const [decisions, setDecisions] = useState<Record<number, HunkDecision>>({});
+
+  const left = versions.find((v)=> v.id === leftId) ?? versions[0];
+  const right = versions.find((v)=> v.id === rightId) ?? versions[versions.length - 1];
+  const parts = useMemo(()=> diffParts(scriptText(left.output), scriptText(right.output)), [left, right]);
+  const rows = useMemo(()=> sideBySide(parts), [parts]);
+  const hunkIds = parts.flatMap((p)=> p.type === 'hunk' ? [p.hunk.id] : []);
+
+  useEffect(()=> setDecisions({}), [leftId, rightId]);
+
+  const decide = (id: number, d: HunkDecision)=> setDecisions((s)=> ({ ...s, [id]: d }));
+  const decideAll = (d: HunkDecision)=> setDecisions(Object.fromEntries(hunkIds.map((id)=> [id, d])));
+  const select = 'p-2 rounded-md text-sm bg-field text-fg border border-line';
+  const small = 'px-2 py-1 rounded text-xs bg-raised border border-line text-soft hover:bg-tint';
+
+  const cell = (text: string | undefined, no: number | undefined, side: 'left'|'right', hunkId?: number)=>{
+    const d = hunkId === undefined ? undefined : decisions[hunkId];
+    const kept = hunkId === undefined || (side === 'left' ? d !== 'accept' : d === 'accept');
+    const tone = hunkId === undefined || text === undefined ? '' : side === 'left' ? 'bg-rose-500/15' : 'bg-emerald-500/15';
+    return (
+      <div className={`flex gap-2 px-2 ${tone} ${kept ? '' : 'opacity-40 line-through'}`}>
+        <span className="w-8 shrink-0 text-right select-none text-faint">{no ?? ''}</span>
+        <span className="whitespace-pre-wrap break-words min-w-0">{text ?? ''}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select aria-label="Left version" value={left.id} onChange={(e)=>setLeftId(e.target.value)} className={select}>
+          {versions.map((v, i)=> <option key={v.id} value={v.id}>{versionLabel(v, i)}</option>)}
+        </select>
+        <span className="text-faint">vs</span>
+        <select aria-label="Right version" value={right.id} onChange={(e)=>setRightId(e.target.value)} className={select}>
+          {versions.map((v, i)=> <option key={v.id} value={v.id}>{versionLabel(v, i)}</option>)}
+        </select>
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-faint">{hunkIds.length} change{hunkIds.length === 1 ? '' : 's'}</span>
+          <button onClick={()=>decideAll('accept')} className={small}>Accept all</button>
+          <button onClick={()=>decideAll('reject')} className={small}>Reject all</button>
+          <button onClick={()=>onSaveMerged(mergeParts(parts, decisions), left)} disabled={!hunkIds.length} className="px-3 py-1 rounded-md text-xs font-semibold disabled:opacity-40 bg-gradient-to-r from-accent to-accent-2 text-on-accent">Save merged draft</button>
+        </div>
+      </div>
+
+      <div className="font-mono text-xs leading-relaxed rounded-md border border-line text-soft">
+        {rows.map((row, i)=> {
+          const firstOfHunk = row.hunkId !== undefined && rows[i - 1]?.hunkId !== row.hunkId;
+          return (
+            <React.Fragment key={i}>
+              {firstOfHunk && (
+                <div className="flex items-center gap-2 px-2 py-1 border-y border-line bg-tint">
+                  <span className="text-faint">Change {row.hunkId! + 1}</span>
+                  <button onClick={()=>decide(row.hunkId!, 'reject')} aria-pressed={decisions[row.hunkId!] !== 'accept'} className={small}>Reject</button>
+                  <button onClick={()=>decide(row.hunkId!, 'accept')} aria-pressed={decisions[row.hunkId!] === 'accept'} className={small}>Accept</button>
+                </div>
+              )}
+              <div className="grid grid-cols-2">
+                {cell(row.left, row.leftNo, 'left', row.hunkId)}
+                {cell(row.right, row.rightNo, 'right', row.hunkId)}
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { analyzeEmotion, ApiError, configureApi, generateScript, generateScriptStream, getApiConfig, parseEmotionResult, resetApiConfig } from './api';
+
+const respond = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+});
+
+// A streamed body delivered in the given chunks; a null chunk stalls until the reader is cancelled
+const streaming = (type: string, chunks: (string | null)[]) => {
+  const encoder = new TextEncoder();
+  let cancel = () => {};
+  return {
+    ok: true,
+    status: 200,
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? type : null) },
+    body: {
+      getReader: () => ({
+        read: () => {
+          if (!chunks.length) return Promise.resolve({ done: true, value: undefined });
+          const next = chunks.shift();
+          if (next === null) return new Promise((resolve) => { cancel = () => resolve({ done: true, value: undefined }); });
+          return Promise.resolve({ done: false, value: encoder.encode(next) });
+        },
+        cancel: async () => cancel(),
+      }),
+    },
+  };
+};
+
+let fetchMock: jest.Mock;
+
+beforeAll(() => {
+  global.TextDecoder = TextDecoder as unknown as typeof global.TextDecoder;
+});
+
+beforeEach(() => {
+  fetchMock = jest.fn();
+  global.fetch = fetchMock;
+  configureApi({ scriptApi: 'http://mock.local/', emotionApi: 'http://mock.local/emotion', retryDelayMs: 1 });
+});
+
+afterEach(() => {
+  resetApiConfig();
+  delete window.__AI_CODIRECTOR_API__;
+});
+
+test('uses configured base URLs', async () => {
+  fetchMock.mockResolvedValue(respond(200, { final_script: 'INT. ROOM - DAY' }));
+  const out = await generateScript({ text: 'hello', genre: 'Drama' });
+  expect(out.final_script).toBe('INT. ROOM - DAY');
+  expect(fetchMock.mock.calls[0][0]).toBe('http://mock.local/generate-script/');
+  expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ original_script: 'hello', genre: 'Drama' });
+});
+
+test('sends style preset fields alongside the genre', async () => {
+  fetchMock.mockResolvedValue(respond(200, { final_script: 'INT. ROOM - DAY' }));
+  await generateScript({ text: 'hello', genre: 'Thriller', style: { tone: 'bleak', reference_writers: ['Raymond Chandler'] } });
+  expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ original_script: 'hello', genre: 'Thriller', tone: 'bleak', reference_writers: ['Raymond Chandler'] });
+});
+
+test('window override is picked up at runtime', () => {
+  resetApiConfig();
+  window.__AI_CODIRECTOR_API__ = { emotionApi: 'http://staging.local' };
+  expect(getApiConfig().emotionApi).toBe('http://staging.local');
+});
+
+test('retries cold-start 503s with backoff', async () => {
+  fetchMock
+    .mockResolvedValueOnce(respond(503, 'Loading'))
+    .mockResolvedValueOnce(respond(503, 'Loading'))
+    .mockResolvedValueOnce(respond(200, { predicted_emotion: 'joy', confidence: '0.9', match: true }));
+  const out = await analyzeEmotion({ video: new Blob(['x']), intendedEmotion: 'joy' });
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+  expect(out).toMatchObject({ predicted_emotion: 'joy', confidence: 0.9, match: true });
+});
+
+test('does not retry client errors and surfaces FastAPI detail', async () => {
+  fetchMock.mockResolvedValue(respond(422, { detail: [{ msg: 'field required' }] }));
+  await expect(generateScript({ text: 'x', genre: 'Drama' })).rejects.toMatchObject({ kind: 'http', status: 422, message: 'field required' });
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('bad payloads become schema errors', async () => {
+  fetchMock.mockResolvedValue(respond(200, { unexpected: true }));
+  await expect(generateScript({ text: 'x', genre: 'Drama' })).rejects.toMatchObject({ kind: 'schema' });
+  expect(() => parseEmotionResult({ predicted_emotion: 'joy', confidence: 'high' })).toThrow(ApiError);
+});
+
+test('caller abort cancels without retrying', async () => {
+  const ctrl = new AbortController();
+  fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+    init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+  }));
+  const pending = generateScript({ text: 'x', genre: 'Drama' }, { signal: ctrl.signal });
+  ctrl.abort();
+  await expect(pending).rejects.toMatchObject({ kind: 'aborted' });
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('times out slow requests', async () => {
+  fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+    init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+  }));
+  await expect(generateScript({ text: 'x', genre: 'Drama' }, { timeoutMs: 5, retries: 0 })).rejects.toMatchObject({ kind: 'timeout' });
+});
+
+test('timeout and cancel still apply once headers have arrived', async () => {
+  const stalledBody = (_url: string, init: RequestInit) => Promise.resolve({
+    ok: true,
+    status: 200,
+    headers: { get: () => 'application/json' },
+    text: () => new Promise((_resolve, reject) => { init.signal!.addEventListener('abort', () => reject(new Error('aborted'))); }),
+  });
+  fetchMock.mockImplementation(stalledBody);
+  await expect(generateScript({ text: 'x', genre: 'Drama' }, { timeoutMs: 5, retries: 0 })).rejects.toMatchObject({ kind: 'timeout' });
+
+  const ctrl = new AbortController();
+  const pending = generateScript({ text: 'x', genre: 'Drama' }, { signal: ctrl.signal });
+  await new Promise((r) => setTimeout(r, 0));
+  ctrl.abort();
+  await expect(pending).rejects.toMatchObject({ kind: 'aborted' });
+});
+
+test('streams server-sent events and reports progress', async () => {
+  fetchMock.mockResolvedValue(streaming('text/event-stream', ['data: {"delta":"INT. ROOM"}\n\ndata: {"del', 'ta":" - DAY"}\n\n: keep-alive\n\n', 'data: [DONE]\n\n']));
+  const texts: string[] = []; const statuses: string[] = [];
+  const out = await generateScriptStream({ text: 'x', genre: 'Drama' }, { onText: (t) => texts.push(t), onStatus: (s) => statuses.push(s) });
+  expect(out.final_script).toBe('INT. ROOM - DAY');
+  expect(texts).toEqual(['INT. ROOM', 'INT. ROOM - DAY']);
+  expect(statuses).toEqual(['connecting', 'waiting', 'streaming']);
+  expect(fetchMock.mock.calls[0][1].headers.Accept).toMatch(/text\/event-stream/);
+  expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ stream: true });
+});
+
+test('uses a final result event and chunked plain text', async () => {
+  fetchMock.mockResolvedValueOnce(streaming('text/event-stream', ['data: draft\n\nevent: result\ndata: {"structured_script":"A","final_script":"B"}\n\n']));
+  await expect(generateScriptStream({ text: 'x', genre: 'Drama' })).resolves.toEqual({ structured_script: 'A', final_script: 'B' });
+  fetchMock.mockResolvedValueOnce(streaming('text/plain; charset=utf-8', ['FADE IN:', '\n\nINT. ROOM - DAY']));
+  await expect(generateScriptStream({ text: 'x', genre: 'Drama' })).resolves.toEqual({ final_script: 'FADE IN:\n\nINT. ROOM - DAY' });
+});
+
+test('falls back to one-shot JSON when the server does not stream', async () => {
+  fetchMock.mockResolvedValue(respond(200, { final_script: 'INT. ROOM - DAY' }));
+  const onText = jest.fn();
+  await expect(generateScriptStream({ text: 'x', genre: 'Drama' }, { onText })).resolves.toEqual({ final_script: 'INT. ROOM - DAY' });
+  expect(onText).not.toHaveBeenCalled();
+});
+
+test('surfaces stream errors and stalls without retrying', async () => {
+  fetchMock.mockResolvedValueOnce(streaming('text/event-stream', ['data: {"delta":"INT."}\n\nevent: error\ndata: {"detail":"Model overloaded"}\n\n']));
+  await expect(generateScriptStream({ text: 'x', genre: 'Drama' })).rejects.toMatchObject({ kind: 'http', message: 'Model overloaded' });
+  fetchMock.mockResolvedValueOnce(streaming('text/event-stream', ['data: INT.\n\n', null]));
+  await expect(generateScriptStream({ text: 'x', genre: 'Drama' }, { timeoutMs: 20 })).rejects.toMatchObject({ kind: 'timeout' });
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+test('caller abort stops a stream in progress', async () => {
+  const ctrl = new AbortController();
+  fetchMock.mockResolvedValue(streaming('text/event-stream', ['data: INT.\n\n', null]));
+  const pending = generateScriptStream({ text: 'x', genre: 'Drama' }, { signal: ctrl.signal, onText: () => ctrl.abort() });
+  await expect(pending).rejects.toMatchObject({ kind: 'aborted' });
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
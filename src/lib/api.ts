@@ -0,0 +1,404 @@
+// AI-CoDirector — typed API client for the Script Writer and Emotion Detector backends.
+// - Base URLs from build-time env (REACT_APP_SCRIPT_API / REACT_APP_EMOTION_API)
+//   with a runtime override (window.__AI_CODIRECTOR_API__, localStorage or configureApi)
+// - Per-attempt timeouts, caller cancellation via AbortSignal
+// - Retry with exponential backoff for cold-start 502/503/504s from the HF Spaces
+// - Runtime-validated responses: bad payloads surface as ApiError('schema')
+// - Streaming script generation (server-sent events or chunked text) with a one-shot JSON fallback
+
+import { parseRecommendations, Recommendations } from "./recommendations";
+
+// -------------------- Types
+export type ScriptResult = { structured_script?: string; final_script?: string };
+/** House-style fields sent alongside `genre`; empty ones are left out of the request. */
+export type ScriptStyle = {
+  tone?: string;
+  pacing?: string;
+  target_length?: string;
+  era?: string;
+  reference_writers?: string[];
+  style_notes?: string;
+};
+export type ScriptInput = { text: string; genre: string; style?: ScriptStyle };
+export type EmotionResult = {
+  predicted_emotion: string;
+  confidence: number;
+  match: boolean;
+  recommendations?: Recommendations;
+  transcribed_text?: string;
+  probabilities_breakdown?: Record<string, number>;
+};
+
+export type ApiConfig = {
+  scriptApi: string;
+  emotionApi: string;
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+};
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type GenerationStatus = 'connecting' | 'waiting' | 'streaming' | 'retrying';
+
+export type StreamOptions = RequestOptions & {
+  /** Called with the full text received so far, each time more arrives */
+  onText?: (text: string) => void;
+  onStatus?: (status: GenerationStatus) => void;
+};
+
+declare global {
+  interface Window {
+    /** Runtime override, e.g. set by a script tag in index.html on a staging deploy */
+    __AI_CODIRECTOR_API__?: Partial<ApiConfig>;
+  }
+}
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'schema';
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+// -------------------- Config
+const DEFAULT_CONFIG: ApiConfig = {
+  scriptApi: process.env.REACT_APP_SCRIPT_API || 'https://Arjun9036-script-writer-api.hf.space',
+  emotionApi: process.env.REACT_APP_EMOTION_API || 'https://arjun9036-multimodal-emotion-backend.hf.space',
+  timeoutMs: 120_000,
+  retries: 3,
+  retryDelayMs: 1_000,
+};
+
+const STORAGE_KEY = 'ai_codirector_api';
+let overrides: Partial<ApiConfig> = {};
+
+function readRuntimeConfig(): Partial<ApiConfig> {
+  let fromStorage: Partial<ApiConfig> = {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (raw) fromStorage = JSON.parse(raw);
+  } catch {}
+  return { ...fromStorage, ...(window.__AI_CODIRECTOR_API__ || {}) };
+}
+
+export function getApiConfig(): ApiConfig {
+  const cfg = { ...DEFAULT_CONFIG, ...readRuntimeConfig(), ...overrides };
+  return { ...cfg, scriptApi: trimSlash(cfg.scriptApi), emotionApi: trimSlash(cfg.emotionApi) };
+}
+
+/** Override config at runtime (e.g. point at a local mock server). Pass `persist` to keep it across reloads. */
+export function configureApi(next: Partial<ApiConfig>, { persist = false } = {}) {
+  overrides = { ...overrides, ...next };
+  if (persist) {
+    try { window.localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides)); } catch {}
+  }
+}
+
+export function resetApiConfig() {
+  overrides = {};
+  try { window.localStorage.removeItem(STORAGE_KEY); } catch {}
+}
+
+function trimSlash(url: string) { return url.replace(/\/+$/, ''); }
+
+// -------------------- Endpoints
+export function generateScript({ text, genre, style }: ScriptInput, opts: RequestOptions = {}): Promise<ScriptResult> {
+  const { scriptApi } = getApiConfig();
+  return request(`${scriptApi}/generate-script/`, () => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ original_script: text, genre, ...style }),
+  }), parseScriptResult, opts);
+}
+
+/**
+ * Same endpoint as generateScript, but asks for a stream. Servers that only answer with JSON
+ * fall back to one-shot behaviour; with a stream, `timeoutMs` applies to the gap between chunks.
+ */
+export function generateScriptStream({ text, genre, style }: ScriptInput, { onText, onStatus, ...opts }: StreamOptions = {}): Promise<ScriptResult> {
+  const { scriptApi } = getApiConfig();
+  return request(`${scriptApi}/generate-script/`, () => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream, text/plain;q=0.9, application/json;q=0.8' },
+    body: JSON.stringify({ original_script: text, genre, ...style, stream: true }),
+  }), parseScriptResult, opts, { onText, onStatus });
+}
+
+export function generateScriptFromPdf({ file, genre, style }:{ file:File; genre:string; style?:ScriptStyle }, opts: RequestOptions = {}): Promise<ScriptResult> {
+  const { scriptApi } = getApiConfig();
+  return request(`${scriptApi}/generate-script-from-pdf/`, () => {
+    const fd = new FormData(); fd.append('file', file); fd.append('genre', genre);
+    // Form fields are flat strings; list fields go as JSON
+    for (const [k, v] of Object.entries(style || {})) if (v !== undefined) fd.append(k, Array.isArray(v) ? JSON.stringify(v) : v);
+    return { method: 'POST', body: fd };
+  }, parseScriptResult, opts);
+}
+
+export function analyzeEmotion({ video, intendedEmotion }:{ video:Blob; intendedEmotion:string }, opts: RequestOptions = {}): Promise<EmotionResult> {
+  const { emotionApi } = getApiConfig();
+  return request(`${emotionApi}/predict`, () => {
+    const fd = new FormData(); fd.append('video', video); fd.append('user_emotion', intendedEmotion);
+    return { method: 'POST', body: fd };
+  }, parseEmotionResult, opts);
+}
+
+// -------------------- Schemas
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function schemaError(what: string, problem: string): never {
+  throw new ApiError('schema', `Unexpected ${what} response: ${problem}`);
+}
+
+export function parseScriptResult(data: unknown): ScriptResult {
+  if (!isObject(data)) schemaError('script', 'expected a JSON object');
+  const { structured_script, final_script } = data;
+  for (const [key, value] of [['structured_script', structured_script], ['final_script', final_script]] as const) {
+    if (value !== undefined && value !== null && typeof value !== 'string') schemaError('script', `"${key}" must be a string`);
+  }
+  if (!structured_script && !final_script) schemaError('script', 'missing "structured_script" and "final_script"');
+  return {
+    structured_script: (structured_script as string | null) ?? undefined,
+    final_script: (final_script as string | null) ?? undefined,
+  };
+}
+
+export function parseEmotionResult(data: unknown): EmotionResult {
+  if (!isObject(data)) schemaError('emotion', 'expected a JSON object');
+  const { predicted_emotion, confidence, match, recommendations, transcribed_text, probabilities_breakdown } = data;
+  if (typeof predicted_emotion !== 'string' || !predicted_emotion) schemaError('emotion', '"predicted_emotion" must be a non-empty string');
+  const conf = typeof confidence === 'string' ? Number(confidence) : confidence;
+  if (typeof conf !== 'number' || Number.isNaN(conf)) schemaError('emotion', '"confidence" must be a number');
+  if (match !== undefined && typeof match !== 'boolean') schemaError('emotion', '"match" must be a boolean');
+  if (transcribed_text !== undefined && transcribed_text !== null && typeof transcribed_text !== 'string') schemaError('emotion', '"transcribed_text" must be a string');
+  let breakdown: Record<string, number> | undefined;
+  if (probabilities_breakdown !== undefined && probabilities_breakdown !== null) {
+    if (!isObject(probabilities_breakdown)) schemaError('emotion', '"probabilities_breakdown" must be an object');
+    breakdown = {};
+    for (const [k, v] of Object.entries(probabilities_breakdown)) {
+      const n = typeof v === 'string' ? Number(v) : v;
+      if (typeof n !== 'number' || Number.isNaN(n)) schemaError('emotion', `"probabilities_breakdown.${k}" must be a number`);
+      breakdown[k] = n;
+    }
+  }
+  return {
+    predicted_emotion,
+    confidence: conf,
+    match: match ?? false,
+    recommendations: parseRecommendations(recommendations) ?? undefined,
+    transcribed_text: (transcribed_text as string | null) ?? undefined,
+    probabilities_breakdown: breakdown,
+  };
+}
+
+// -------------------- Transport
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+type StreamHandlers = Pick<StreamOptions, 'onText' | 'onStatus'>;
+
+async function request<T>(url: string, init: () => RequestInit, parse: (data: unknown) => T, opts: RequestOptions, stream?: StreamHandlers): Promise<T> {
+  const cfg = getApiConfig();
+  const timeoutMs = opts.timeoutMs ?? cfg.timeoutMs;
+  const retries = opts.retries ?? cfg.retries;
+
+  for (let attempt = 0; ; attempt++) {
+    let streamed = false;
+    try {
+      stream?.onStatus?.(attempt ? 'retrying' : 'connecting');
+      return await fetchWithTimeout(url, init(), timeoutMs, opts.signal, async (resp, stopTimer) => {
+        stream?.onStatus?.('waiting');
+        if (stream && resp.ok && isStreamType(resp)) {
+          // Text already shown can't be taken back, so a broken stream is not retried.
+          // A stream may run past the request timeout; readStream times out the gaps instead
+          streamed = true; stopTimer();
+          return parse(await readStream(resp, stream, timeoutMs, opts.signal));
+        }
+        const body = await readBody(resp);
+        if (!resp.ok) throw new ApiError('http', errorDetail(body) || `Server error (${resp.status})`, resp.status);
+        return parse(body);
+      });
+    } catch (e) {
+      const err = toApiError(e);
+      if (streamed || !isRetryable(err) || attempt >= retries) throw err;
+      await sleep(backoff(cfg.retryDelayMs, attempt), opts.signal);
+    }
+  }
+}
+
+/** Fetch and read the response inside `read`, so the timeout and cancel also cover a body that stalls after the headers. */
+async function fetchWithTimeout<T>(url: string, init: RequestInit, timeoutMs: number, signal: AbortSignal | undefined, read: (resp: Response, stopTimer: () => void) => Promise<T>): Promise<T> {
+  if (signal?.aborted) throw new ApiError('aborted', 'Request cancelled');
+  const ctrl = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; ctrl.abort(); }, timeoutMs);
+  const onAbort = () => ctrl.abort();
+  signal?.addEventListener('abort', onAbort);
+  try {
+    const resp = await fetch(url, { ...init, signal: ctrl.signal });
+    return await read(resp, () => clearTimeout(timer));
+  } catch (e) {
+    if (timedOut) throw new ApiError('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    if (signal?.aborted) throw new ApiError('aborted', 'Request cancelled');
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function readBody(resp: Response): Promise<unknown> {
+  const text = await resp.text();
+  if (!text) return null;
+  try { return JSON.parse(text); }
+  catch {
+    if (!resp.ok) return { detail: text.slice(0, 300) };
+    throw new ApiError('schema', 'Server returned a non-JSON response');
+  }
+}
+
+// -------------------- Streaming
+function isStreamType(resp: Response) {
+  const type = resp.headers?.get('content-type') || '';
+  return /^text\/(event-stream|plain)/i.test(type);
+}
+
+/** Read an SSE or chunked-text body to the end; resolves with a script payload for parseScriptResult. */
+async function readStream(resp: Response, { onText, onStatus }: StreamHandlers, idleMs: number, signal?: AbortSignal): Promise<unknown> {
+  const sse = /event-stream/i.test(resp.headers.get('content-type') || '');
+  let text = '';
+  let final: unknown;
+  const append = (chunk: string) => {
+    if (!chunk) return;
+    if (!text) onStatus?.('streaming');
+    text += chunk; onText?.(text);
+  };
+
+  // SSE: `data:` lines carry plain text or JSON ({ delta } / { text } pieces, or the full result); `[DONE]` ends it
+  let pending = '';
+  let event = ''; let data: string[] = [];
+  const dispatch = () => {
+    if (!data.length) { event = ''; return; }
+    const payload = data.join('\n'); data = [];
+    const kind = event; event = '';
+    if (payload === '[DONE]') return;
+    let json: unknown;
+    try { json = JSON.parse(payload); } catch { json = undefined; }
+    if (kind === 'error') throw new ApiError('http', (isObject(json) && (errorDetail(json) || (typeof json.message === 'string' && json.message))) || payload);
+    if (isObject(json)) {
+      if ('structured_script' in json || 'final_script' in json) { final = json; return; }
+      const piece = [json.delta, json.text, json.token, json.content].find((v) => typeof v === 'string');
+      if (piece !== undefined) append(piece as string);
+      return;
+    }
+    append(typeof json === 'string' ? json : payload);
+  };
+  const feed = (chunk: string, flush = false) => {
+    if (!sse) return append(chunk);
+    pending += chunk;
+    const lines = pending.split(/\r\n|\r|\n/);
+    pending = flush ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line === '') dispatch();
+      else if (line.startsWith(':')) continue;
+      else {
+        const i = line.indexOf(':');
+        const field = i < 0 ? line : line.slice(0, i);
+        const value = i < 0 ? '' : line.slice(i + 1).replace(/^ /, '');
+        if (field === 'data') data.push(value);
+        else if (field === 'event') event = value;
+      }
+    }
+    if (flush) dispatch();
+  };
+
+  if (!resp.body) {
+    // No ReadableStream support: take the whole body at once
+    feed(await resp.text(), true);
+  } else {
+    const reader = resp.body.getReader();
+    const decoder = new TextDecoder();
+    let timedOut = false; let finished = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arm = () => { clearTimeout(timer); timer = setTimeout(() => { timedOut = true; reader.cancel().catch(() => {}); }, idleMs); };
+    const onAbort = () => { reader.cancel().catch(() => {}); };
+    signal?.addEventListener('abort', onAbort);
+    try {
+      for (arm(); ; arm()) {
+        if (signal?.aborted) throw new ApiError('aborted', 'Request cancelled');
+        const { done, value } = await reader.read();
+        if (signal?.aborted) throw new ApiError('aborted', 'Request cancelled');
+        if (timedOut) throw new ApiError('timeout', `Stream stalled for ${Math.round(idleMs / 1000)}s`);
+        if (done) { finished = true; break; }
+        feed(decoder.decode(value, { stream: true }));
+      }
+      feed(decoder.decode(), true);
+    } catch (e) {
+      if (signal?.aborted) throw new ApiError('aborted', 'Request cancelled');
+      if (e instanceof ApiError) throw e;
+      throw new ApiError('network', `Stream interrupted (${(e as Error)?.message || e})`);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (!finished) reader.cancel().catch(() => {});
+    }
+  }
+  return final ?? { final_script: text };
+}
+
+// FastAPI sends `detail` as a string or a list of validation errors
+function errorDetail(body: unknown): string {
+  if (!isObject(body)) return '';
+  const { detail } = body;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) return detail.map((d) => (isObject(d) && typeof d.msg === 'string' ? d.msg : JSON.stringify(d))).join('; ');
+  return '';
+}
+
+/** Network errors and cold-start 502/503/504s are worth another attempt; anything else fails the same way again. */
+export function isRetryable(e: unknown): boolean {
+  const err = toApiError(e);
+  return err.kind === 'network' || (err.kind === 'http' && RETRYABLE_STATUS.has(err.status ?? 0));
+}
+
+function toApiError(e: unknown): ApiError {
+  if (e instanceof ApiError) return e;
+  return new ApiError('network', (e as Error)?.message || 'Network error');
+}
+
+function backoff(base: number, attempt: number) {
+  return base * 2 ** attempt + Math.random() * base * 0.25;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new ApiError('aborted', 'Request cancelled'));
+    const onAbort = () => { clearTimeout(timer); reject(new ApiError('aborted', 'Request cancelled')); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Human-readable message for the UI; cancelled requests return '' so callers can stay quiet. */
+export function describeApiError(e: unknown): string {
+  if ((e as Error)?.name === 'AbortError') return '';
+  if (!(e instanceof ApiError)) return (e as Error)?.message || String(e);
+  switch (e.kind) {
+    case 'aborted': return '';
+    case 'timeout': return `${e.message}. The model may still be waking up — try again.`;
+    case 'network': return `Could not reach the server (${e.message}).`;
+    case 'http': return e.status === 503 ? 'The model is still starting up. Please retry in a minute.' : e.message;
+    case 'schema': return e.message;
+  }
+}
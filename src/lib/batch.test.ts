@@ -0,0 +1,85 @@
+import { ApiError } from './api';
+import { BatchItem, rankItems, runQueue, toBatchItems, toCsv, toJson } from './batch';
+
+const video = (name: string) => new File(['x'], name, { type: 'video/mp4' });
+const result = (predicted_emotion: string, confidence: number, match: boolean) => ({ predicted_emotion, confidence, match });
+const done = (name: string, r: ReturnType<typeof result>): BatchItem => ({ id: name, file: video(name), status: 'done', attempts: 1, result: r });
+
+test('queues new videos once and skips unusable files', () => {
+  const first = toBatchItems([video('a.mp4'), new File(['x'], 'notes.txt', { type: 'text/plain' })]);
+  expect(first.map((i) => i.status)).toEqual(['queued', 'skipped']);
+  expect(first[1].error).toBe('Please upload a valid video file');
+  expect(toBatchItems([video('a.mp4'), video('b.mp4')], first).map((i) => i.file.name)).toEqual(['b.mp4']);
+});
+
+test('limits concurrency and retries failed uploads', async () => {
+  const items = toBatchItems(['1', '2', '3', '4', '5'].map((n) => video(`take${n}.mp4`)));
+  let inFlight = 0; let peak = 0;
+  const calls: Record<string, number> = {};
+  const analyze = async (file: File) => {
+    inFlight++; peak = Math.max(peak, inFlight);
+    calls[file.name] = (calls[file.name] || 0) + 1;
+    await new Promise((r) => setTimeout(r, 5));
+    inFlight--;
+    if (file.name === 'take2.mp4' && calls[file.name] < 2) throw new Error('Server error (500)');
+    if (file.name === 'take4.mp4') throw new Error('Server error (500)');
+    return result('joy', 0.5, true);
+  };
+  const changes: BatchItem[] = [];
+  const out = await runQueue(items, analyze, { concurrency: 2, retries: 1, retryDelayMs: 1, onChange: (i) => changes.push(i) });
+  expect(peak).toBe(2);
+  expect(out.map((i) => i.status)).toEqual(['done', 'done', 'done', 'error', 'done']);
+  expect(out[1].attempts).toBe(2);
+  expect(out[3]).toMatchObject({ attempts: 2, error: 'Server error (500)' });
+  expect(changes.some((i) => i.status === 'uploading')).toBe(true);
+});
+
+test('does not retry errors that would fail the same way again', async () => {
+  const items = toBatchItems([video('bad.mp4'), video('busy.mp4')]);
+  const calls: Record<string, number> = {};
+  const analyze = async (file: File) => {
+    calls[file.name] = (calls[file.name] || 0) + 1;
+    throw file.name === 'bad.mp4' ? new ApiError('http', 'Unsupported video', 400) : new ApiError('http', 'Server error (503)', 503);
+  };
+  const out = await runQueue(items, analyze, { concurrency: 1, retries: 2, retryDelayMs: 1 });
+  expect(calls).toEqual({ 'bad.mp4': 1, 'busy.mp4': 3 });
+  expect(out[0]).toMatchObject({ status: 'error', attempts: 1, error: 'Unsupported video' });
+});
+
+test('cancelling puts unfinished takes back in the queue', async () => {
+  const items = toBatchItems([video('a.mp4'), video('b.mp4'), video('c.mp4')]);
+  const ctrl = new AbortController();
+  const analyze = (_file: File, signal?: AbortSignal) => new Promise<never>((_, reject) => {
+    signal?.addEventListener('abort', () => reject(new DOMException('cancelled', 'AbortError')));
+  });
+  const run = runQueue(items, analyze, { concurrency: 1, signal: ctrl.signal });
+  ctrl.abort();
+  expect((await run).map((i) => i.status)).toEqual(['queued', 'queued', 'queued']);
+});
+
+test('ranks matches first by confidence and exports the report', () => {
+  const items = [
+    done('a.mp4', result('joy', 0.9, false)),
+    done('b.mp4', result('sadness', 0.6, true)),
+    done('c.mp4', result('sadness', 0.8, true)),
+    { id: 'd', file: video('d, final.mp4'), status: 'error', attempts: 3, error: 'Server "busy"' } as BatchItem,
+  ];
+  expect(rankItems(items).map((i) => i.file.name)).toEqual(['c.mp4', 'b.mp4', 'a.mp4', 'd, final.mp4']);
+  expect(rankItems(items, { key: 'confidence', dir: 'desc' })[0].file.name).toBe('a.mp4');
+
+  const csv = toCsv(items, 'sadness').trim().split('\r\n');
+  expect(csv[0]).toBe('rank,file,intended,predicted,confidence,match,status,attempts,error');
+  expect(csv[1]).toBe('1,c.mp4,sadness,sadness,0.8,true,done,1,');
+  expect(csv[4]).toBe(',"d, final.mp4",sadness,,,,error,3,"Server ""busy"""');
+
+  const percent = [done('p.mp4', result('sadness', 85, true)), ...items];
+  expect(rankItems(percent)[0].file.name).toBe('p.mp4');
+  expect(toCsv(percent, 'sadness').split('\r\n')[1]).toBe('1,p.mp4,sadness,sadness,0.85,true,done,1,');
+
+  const risky = [{ id: 'e', file: video('=HYPERLINK("http://x")'), status: 'error', attempts: 1, error: '-1 frames' } as BatchItem];
+  expect(toCsv(risky, 'sadness').split('\r\n')[1]).toBe(`,"'=HYPERLINK(""http://x"")",sadness,,,,error,1,'-1 frames`);
+
+  const json = JSON.parse(toJson(items, 'sadness', new Date('2024-01-01T00:00:00Z')));
+  expect(json).toMatchObject({ intendedEmotion: 'sadness', generatedAt: '2024-01-01T00:00:00.000Z' });
+  expect(json.takes[0]).toMatchObject({ rank: 1, file: 'c.mp4', confidence: 0.8, match: true });
+});
@@ -0,0 +1,166 @@
+// AI-CoDirector — batch analysis of many takes for one intended emotion.
+// - Dropped folders are walked recursively; unusable files are kept as 'skipped' rows
+// - Uploads run with limited concurrency; a take that fails with a retryable error is retried with backoff
+// - Ranking (match first, then confidence) and CSV / JSON report export
+
+import { saveAs } from "file-saver";
+import { describeApiError, EmotionResult, isRetryable } from "./api";
+import { validateVideoFile } from "./media";
+import { confidencePct } from "./recommendations";
+
+// -------------------- Types
+export type BatchStatus = 'queued' | 'uploading' | 'done' | 'error' | 'skipped';
+export type BatchItem = { id: string; file: File; status: BatchStatus; attempts: number; result?: EmotionResult; error?: string };
+export type BatchSortKey = 'rank' | 'name' | 'predicted' | 'confidence' | 'match' | 'status';
+export type BatchSort = { key: BatchSortKey; dir: 'asc' | 'desc' };
+
+let seq = 0;
+
+/** Queue new files, skipping ones already listed (same name and size) and marking invalid ones as skipped. */
+export function toBatchItems(files: File[], existing: BatchItem[] = []): BatchItem[] {
+  const seen = new Set(existing.map((i) => `${i.file.name}:${i.file.size}`));
+  const items: BatchItem[] = [];
+  for (const file of files) {
+    const key = `${file.name}:${file.size}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const invalid = validateVideoFile(file);
+    items.push({ id: `${Date.now()}-${++seq}`, file, status: invalid ? 'skipped' : 'queued', attempts: 0, error: invalid || undefined });
+  }
+  return items;
+}
+
+// -------------------- Dropped folders
+type Entry = { isFile: boolean; isDirectory: boolean; file?: (ok: (f: File) => void, fail: (e: unknown) => void) => void; createReader?: () => { readEntries: (ok: (entries: Entry[]) => void, fail: (e: unknown) => void) => void } };
+
+async function walk(entry: Entry): Promise<File[]> {
+  if (entry.isFile && entry.file) return [await new Promise<File>((ok, fail) => entry.file!(ok, fail))];
+  if (!entry.isDirectory || !entry.createReader) return [];
+  const reader = entry.createReader();
+  const files: File[] = [];
+  // readEntries returns at most ~100 entries per call; keep reading until it comes back empty
+  for (;;) {
+    const batch = await new Promise<Entry[]>((ok, fail) => reader.readEntries(ok, fail));
+    if (!batch.length) break;
+    for (const child of batch) files.push(...(await walk(child)));
+  }
+  return files;
+}
+
+/** Files from a drop, descending into folders where the browser exposes them. */
+export async function filesFromDrop(dt: DataTransfer): Promise<File[]> {
+  const items = Array.from(dt.items ?? []);
+  const entries = items.map((i) => (i as DataTransferItem & { webkitGetAsEntry?: () => Entry | null }).webkitGetAsEntry?.()).filter(Boolean) as Entry[];
+  if (!entries.length) return Array.from(dt.files ?? []);
+  const files: File[] = [];
+  for (const entry of entries) files.push(...(await walk(entry)));
+  return files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+// -------------------- Queue
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/**
+ * Analyze every 'queued' item with at most `concurrency` uploads in flight. A take that keeps
+ * failing after `retries` extra attempts, or fails with an error that retrying won't fix (4xx,
+ * bad response), is marked as an error and the rest carry on; on cancel unfinished takes go back
+ * to 'queued'. onChange receives each updated item. `analyze` should not retry on its own.
+ */
+export async function runQueue(
+  items: BatchItem[],
+  analyze: (file: File, signal?: AbortSignal) => Promise<EmotionResult>,
+  { concurrency = 3, retries = 2, retryDelayMs = 2_000, signal, onChange }:{ concurrency?: number; retries?: number; retryDelayMs?: number; signal?: AbortSignal; onChange?: (item: BatchItem) => void } = {},
+): Promise<BatchItem[]> {
+  const out = items.slice();
+  const pending = out.map((item, i) => (item.status === 'queued' ? i : -1)).filter((i) => i >= 0);
+  const update = (i: number, patch: Partial<BatchItem>) => { out[i] = { ...out[i], ...patch }; onChange?.(out[i]); };
+
+  const worker = async () => {
+    for (let i = pending.shift(); i !== undefined && !signal?.aborted; i = pending.shift()) {
+      for (let attempt = 0; ; attempt++) {
+        update(i, { status: 'uploading', attempts: out[i].attempts + 1, error: undefined });
+        try {
+          update(i, { status: 'done', result: await analyze(out[i].file, signal) });
+          break;
+        } catch (e) {
+          if (signal?.aborted) { update(i, { status: 'queued' }); return; }
+          const error = describeApiError(e) || 'Analysis failed';
+          if (attempt >= retries || !isRetryable(e)) { update(i, { status: 'error', error }); break; }
+          update(i, { status: 'queued', error: `${error} — retrying` });
+          await sleep(retryDelayMs * 2 ** attempt, signal);
+          if (signal?.aborted) return;
+        }
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+  return out;
+}
+
+// -------------------- Ranking
+/** Best takes first: analyzed before unanalyzed, matches before misses, then by confidence. */
+export function compareRank(a: BatchItem, b: BatchItem): number {
+  if (!!a.result !== !!b.result) return a.result ? -1 : 1;
+  if (!a.result || !b.result) return 0;
+  if (a.result.match !== b.result.match) return a.result.match ? -1 : 1;
+  return confidencePct(b.result.confidence) - confidencePct(a.result.confidence);
+}
+
+export function rankItems(items: BatchItem[], { key, dir }: BatchSort = { key: 'rank', dir: 'asc' }): BatchItem[] {
+  const by: Record<BatchSortKey, (a: BatchItem, b: BatchItem) => number> = {
+    rank: compareRank,
+    name: (a, b) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true }),
+    predicted: (a, b) => (a.result?.predicted_emotion ?? '').localeCompare(b.result?.predicted_emotion ?? ''),
+    confidence: (a, b) => (a.result ? confidencePct(a.result.confidence) : -1) - (b.result ? confidencePct(b.result.confidence) : -1),
+    match: (a, b) => Number(a.result?.match ?? -1) - Number(b.result?.match ?? -1),
+    status: (a, b) => a.status.localeCompare(b.status),
+  };
+  const sign = dir === 'asc' ? 1 : -1;
+  return items.slice().sort((a, b) => sign * by[key](a, b) || compareRank(a, b));
+}
+
+// -------------------- Report
+type ReportRow = { rank: number | null; file: string; intended: string; predicted: string | null; confidence: number | null; match: boolean | null; status: BatchStatus; attempts: number; error: string | null };
+
+export function reportRows(items: BatchItem[], intended: string): ReportRow[] {
+  const ranked = rankItems(items);
+  return ranked.map((i) => ({
+    rank: i.result ? ranked.indexOf(i) + 1 : null,
+    file: i.file.name,
+    intended,
+    predicted: i.result?.predicted_emotion ?? null,
+    // Always a 0–1 fraction in the report, whichever scale the backend answered in
+    confidence: i.result ? Number((confidencePct(i.result.confidence) / 100).toFixed(4)) : null,
+    match: i.result ? i.result.match : null,
+    status: i.status,
+    attempts: i.attempts,
+    error: i.status === 'done' ? null : i.error ?? null,
+  }));
+}
+
+export function toCsv(items: BatchItem[], intended: string): string {
+  const rows = reportRows(items, intended);
+  const head: (keyof ReportRow)[] = ['rank', 'file', 'intended', 'predicted', 'confidence', 'match', 'status', 'attempts', 'error'];
+  const cell = (v: unknown) => {
+    let s = v === null || v === undefined ? '' : String(v);
+    // Spreadsheets run text starting with these as a formula (e.g. a take named =HYPERLINK(...))
+    if (typeof v === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [head.join(','), ...rows.map((r) => head.map((k) => cell(r[k])).join(','))].join('\r\n') + '\r\n';
+}
+
+export function toJson(items: BatchItem[], intended: string, date = new Date()): string {
+  return JSON.stringify({ intendedEmotion: intended, generatedAt: date.toISOString(), takes: reportRows(items, intended) }, null, 2);
+}
+
+export function downloadReport(format: 'csv' | 'json', items: BatchItem[], intended: string) {
+  const blob = format === 'csv'
+    ? new Blob([toCsv(items, intended)], { type: 'text/csv;charset=utf-8' })
+    : new Blob([toJson(items, intended)], { type: 'application/json' });
+  const slug = intended.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  saveAs(blob, `takes_${slug || 'batch'}.${format}`);
+}
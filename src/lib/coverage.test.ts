@@ -0,0 +1,50 @@
+import { dialogueBlocks, lineKey, lineStatus, sceneCoverage, suggestEmotion } from './coverage';
+import { parseScreenplay } from './screenplay';
+
+const SCRIPT = `INT. HOSPITAL CORRIDOR - NIGHT
+
+Maya sits alone outside the ward, tears on her face.
+
+MAYA
+(quietly)
+He's gone. I never said goodbye.
+
+DR. REYES
+I'm sorry.
+
+EXT. PARKING LOT - NIGHT
+
+Tom slams the car door.
+
+TOM (V.O.)
+How dare you walk away from me!
+`;
+
+const take = (match: boolean) => ({ videoName: 'take.webm', at: 0, result: { predicted_emotion: match ? 'sadness' : 'joy', confidence: 0.8, match } });
+
+test('collects dialogue blocks with their scene and context', () => {
+  const blocks = dialogueBlocks(parseScreenplay(SCRIPT));
+  expect(blocks.map((b) => b.character)).toEqual(['MAYA', 'DR. REYES', 'TOM (V.O.)']);
+  expect(blocks[0]).toMatchObject({ parenthetical: '(quietly)', text: "He's gone. I never said goodbye.", sceneNumber: '1' });
+  expect(blocks[0].ids).toHaveLength(3);
+  expect(blocks[0].context).toMatch(/tears on her face/);
+  expect(blocks[2].key).toBe(lineKey('Tom', 'How dare you walk away  from me!'));
+});
+
+test('suggests an emotion from the line and the scene', () => {
+  const [maya, reyes, tom] = dialogueBlocks(parseScreenplay(SCRIPT));
+  expect(suggestEmotion(maya)).toBe('sadness');
+  expect(suggestEmotion(reyes)).toBe('sadness');
+  expect(suggestEmotion(tom)).toBe('anger');
+  expect(suggestEmotion({ ...tom, text: 'Pass the salt.', context: '', parenthetical: '' })).toBe('neutral');
+});
+
+test('counts coverage per scene', () => {
+  const doc = parseScreenplay(SCRIPT);
+  const [maya, reyes] = dialogueBlocks(doc);
+  const scenes = sceneCoverage(doc, { [maya.key]: { emotion: 'sadness', take: take(true) }, [reyes.key]: { emotion: 'sadness', take: take(false) } });
+  expect(scenes.map((s) => s.heading)).toEqual(['INT. HOSPITAL CORRIDOR - NIGHT', 'EXT. PARKING LOT - NIGHT']);
+  expect(scenes[0].counts).toEqual({ untagged: 0, untested: 0, hit: 1, miss: 1 });
+  expect(scenes[1].counts).toEqual({ untagged: 1, untested: 0, hit: 0, miss: 0 });
+  expect(lineStatus({ emotion: 'fear' })).toBe('untested');
+});
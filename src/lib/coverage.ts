@@ -0,0 +1,113 @@
+// AI-CoDirector — script-to-performance loop: dialogue blocks tagged with an intended emotion,
+// the take recorded for each, and per-scene coverage of which lines land.
+// Tags are keyed by speaker + text rather than element id, so they carry over to regenerated
+// versions wherever the line itself is unchanged.
+
+import type { EmotionResult } from "./api";
+import { Emotion, EMOTIONS } from "./emotions";
+import type { Screenplay } from "./screenplay";
+
+// -------------------- Types
+export type DialogueBlock = {
+  key: string;
+  /** Element ids of the cue, parentheticals and dialogue, in order */
+  ids: string[];
+  character: string;
+  parenthetical: string;
+  text: string;
+  sceneNumber?: string;
+  sceneHeading?: string;
+  /** Action lines of the scene up to this line, used for suggestions */
+  context: string;
+};
+
+export type LineTake = { analysisId?: string; videoName: string; result: EmotionResult; at: number };
+export type LineTag = { emotion: string; suggested?: boolean; take?: LineTake };
+export type LineStatus = 'untagged' | 'untested' | 'hit' | 'miss';
+
+/** Handed from the Teleprompter to the Emotion Detector while a take is recorded for a line. */
+export type LineCue = { scriptId: string; key: string; character: string; text: string; emotion: string; file?: File };
+
+// -------------------- Blocks
+const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function lineKey(character: string, text: string): string {
+  // Extensions like (V.O.) / (CONT'D) don't change which line it is
+  return `${normalize(character.replace(/\(.*?\)/g, ''))}|${normalize(text)}`;
+}
+
+export function dialogueBlocks(doc: Screenplay): DialogueBlock[] {
+  const blocks: DialogueBlock[] = [];
+  let scene: { number?: string; heading?: string } = {};
+  let context: string[] = [];
+  let block: DialogueBlock | null = null;
+  const close = () => { if (block?.text) blocks.push(block); block = null; };
+
+  for (const el of doc.elements) {
+    if (el.type === 'character') { close(); block = { key: '', ids: [el.id], character: el.text, parenthetical: '', text: '', sceneNumber: scene.number, sceneHeading: scene.heading, context: context.join('\n') }; continue; }
+    if (block && (el.type === 'parenthetical' || el.type === 'dialogue')) {
+      block.ids.push(el.id);
+      if (el.type === 'parenthetical') block.parenthetical = [block.parenthetical, el.text].filter(Boolean).join(' ');
+      else block.text = [block.text, el.text].filter(Boolean).join('\n');
+      block.key = lineKey(block.character, block.text);
+      continue;
+    }
+    close();
+    if (el.type === 'scene_heading') { scene = { number: el.sceneNumber, heading: el.text }; context = []; }
+    else if (el.type === 'action') context.push(el.text);
+  }
+  close();
+  return blocks;
+}
+
+// -------------------- Suggestions
+const LEXICON: Record<Emotion, RegExp> = {
+  anger: /\b(angr\w*|furious|rage\w*|shout\w*|yell\w*|snap\w*|glar\w*|slam\w*|hate\w*|damn\w*|how dare|sick of|enough|fists?|seeth\w*|livid|through (his|her|their) teeth)\b/gi,
+  disgust: /\b(disgust\w*|gross|revolting|vile|nasty|repuls\w*|grimac\w*|stench|ew+|sickening)\b/gi,
+  fear: /\b(afraid|scared|terrifi\w*|fear\w*|panic\w*|trembl\w*|shak\w*|hid(e|ing)|help me|please don'?t|nervous\w*|anxious\w*|dread\w*|run)\b/gi,
+  joy: /\b(laugh\w*|smil\w*|grin\w*|happ(y|ily|iness)|love\w*|wonderful|beautiful|thank\w*|great|amazing|delight\w*|excit\w*|beam\w*|celebrat\w*)\b/gi,
+  neutral: /\b(flatly|evenly|matter-of-fact\w*|calm\w*|neutral)\b/gi,
+  sadness: /\b(cr(y|ies|ied|ying)|tears?|tearful\w*|sob\w*|sad\w*|sorry|miss(ed)?|lost|alone|gone|goodbye|grie\w*|funeral|broken|hurt\w*|quietly)\b/gi,
+  surprise: /\b(gasp\w*|shock\w*|stunn\w*|can'?t believe|no way|suddenly|wow|what\?|really\?|startl\w*)/gi,
+};
+
+const count = (re: RegExp, s: string) => (s.match(re) ?? []).length;
+
+/** Best-guess intended emotion from the parenthetical, the line and the scene's action so far. */
+export function suggestEmotion(block: DialogueBlock): Emotion {
+  let best: Emotion = 'neutral'; let top = 0;
+  for (const emotion of EMOTIONS) {
+    const re = LEXICON[emotion];
+    const score = 3 * count(re, block.parenthetical) + 2 * count(re, block.text) + count(re, block.context.split('\n').slice(-2).join(' '));
+    if (score > top) { best = emotion; top = score; }
+  }
+  return best;
+}
+
+// -------------------- Coverage
+export function lineStatus(tag?: LineTag): LineStatus {
+  if (!tag?.emotion) return 'untagged';
+  if (!tag.take) return 'untested';
+  return tag.take.result.match ? 'hit' : 'miss';
+}
+
+export type SceneCoverage = {
+  sceneNumber?: string;
+  heading: string;
+  blocks: DialogueBlock[];
+  counts: Record<LineStatus, number>;
+};
+
+export function sceneCoverage(doc: Screenplay, tags: Record<string, LineTag> = {}): SceneCoverage[] {
+  const scenes: SceneCoverage[] = [];
+  for (const block of dialogueBlocks(doc)) {
+    let scene = scenes[scenes.length - 1];
+    if (!scene || scene.heading !== (block.sceneHeading ?? '') || scene.sceneNumber !== block.sceneNumber) {
+      scene = { sceneNumber: block.sceneNumber, heading: block.sceneHeading ?? '', blocks: [], counts: { untagged: 0, untested: 0, hit: 0, miss: 0 } };
+      scenes.push(scene);
+    }
+    scene.blocks.push(block);
+    scene.counts[lineStatus(tags[block.key])]++;
+  }
+  return scenes;
+}
@@ -0,0 +1,36 @@
+import { diffLines, diffParts, mergeParts, sideBySide } from './diff';
+
+const drama = ['INT. KITCHEN - NIGHT', '', 'Maya stirs her tea.', '', 'MAYA', 'I miss him.'].join('\n');
+const thriller = ['INT. KITCHEN - NIGHT', '', 'A floorboard creaks. Maya freezes.', '', 'MAYA', 'Who\'s there?', '(beat)', 'Hello?'].join('\n');
+
+test('produces a minimal line diff that rebuilds both sides', () => {
+  const a = drama.split('\n'); const b = thriller.split('\n');
+  const ops = diffLines(a, b);
+  expect(ops.filter((o) => o.type !== 'insert').map((o) => o.line)).toEqual(a);
+  expect(ops.filter((o) => o.type !== 'delete').map((o) => o.line)).toEqual(b);
+  expect(ops.filter((o) => o.type === 'equal')).toHaveLength(4);
+});
+
+test('handles empty and identical inputs', () => {
+  expect(diffLines([], ['a'])).toEqual([{ type: 'insert', line: 'a' }]);
+  expect(diffLines(['a', 'b'], ['a', 'b']).every((o) => o.type === 'equal')).toBe(true);
+});
+
+test('groups changes into hunks with side-by-side rows', () => {
+  const parts = diffParts(drama, thriller);
+  const hunks = parts.flatMap((p) => (p.type === 'hunk' ? [p.hunk] : []));
+  expect(hunks.map((h) => [h.oldLines, h.newLines])).toEqual([
+    [['Maya stirs her tea.'], ['A floorboard creaks. Maya freezes.']],
+    [['I miss him.'], ["Who's there?", '(beat)', 'Hello?']],
+  ]);
+  const rows = sideBySide(parts);
+  expect(rows).toHaveLength(8);
+  expect(rows[6]).toEqual({ hunkId: 1, right: '(beat)', rightNo: 7 });
+});
+
+test('merges accepted hunks into the left draft', () => {
+  const parts = diffParts(drama, thriller);
+  expect(mergeParts(parts, {})).toBe(drama);
+  expect(mergeParts(parts, { 0: 'accept', 1: 'accept' })).toBe(thriller);
+  expect(mergeParts(parts, { 0: 'accept', 1: 'reject' }).split('\n')[2]).toBe('A floorboard creaks. Maya freezes.');
+});
@@ -0,0 +1,108 @@
+// AI-CoDirector — line-level diff and hunk merge between script versions.
+// - Myers O(ND) diff after trimming the common prefix/suffix
+// - Changes grouped into hunks that can be accepted (take the right side) or rejected (keep the left)
+// - Side-by-side rows for rendering, pairing deleted and inserted lines within a hunk
+
+// -------------------- Types
+export type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+export type Hunk = { id: number; oldStart: number; oldLines: string[]; newStart: number; newLines: string[] };
+export type DiffPart = { type: 'equal'; lines: string[] } | { type: 'hunk'; hunk: Hunk };
+export type SideBySideRow = { left?: string; right?: string; leftNo?: number; rightNo?: number; hunkId?: number };
+export type HunkDecision = 'accept' | 'reject';
+
+// -------------------- Myers diff
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length; let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const head = a.slice(0, start).map((line): DiffOp => ({ type: 'equal', line }));
+  const tail = a.slice(endA).map((line): DiffOp => ({ type: 'equal', line }));
+  return [...head, ...myers(a.slice(start, endA), b.slice(start, endB)), ...tail];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length; const m = b.length; const max = n + m;
+  if (!n) return b.map((line) => ({ type: 'insert', line }));
+  if (!m) return a.map((line) => ({ type: 'delete', line }));
+
+  const off = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // trace[d] holds v for k in [-d, d] before step d
+  let found = -1;
+  for (let d = 0; d <= max && found < 0; d++) {
+    trace.push(v.slice(off - d, off + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[off + k - 1] < v[off + k + 1]) ? v[off + k + 1] : v[off + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[off + k] = x;
+      if (x >= n && y >= m) { found = d; break; }
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let x = n; let y = m;
+  for (let d = found; d > 0; d--) {
+    const snap = trace[d];
+    const at = (k: number) => snap[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK); const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) { ops.push({ type: 'equal', line: a[--x] }); y--; }
+    if (prevK === k + 1) ops.push({ type: 'insert', line: b[--y] });
+    else ops.push({ type: 'delete', line: a[--x] });
+  }
+  while (x > 0 && y > 0) { ops.push({ type: 'equal', line: a[--x] }); y--; }
+  return ops.reverse();
+}
+
+// -------------------- Hunks
+export function diffParts(oldText: string, newText: string): DiffPart[] {
+  const ops = diffLines(oldText.split('\n'), newText.split('\n'));
+  const parts: DiffPart[] = [];
+  let oldNo = 0; let newNo = 0; let hunkId = 0;
+  for (const op of ops) {
+    const last = parts[parts.length - 1];
+    if (op.type === 'equal') {
+      if (last?.type === 'equal') last.lines.push(op.line);
+      else parts.push({ type: 'equal', lines: [op.line] });
+      oldNo++; newNo++;
+      continue;
+    }
+    let hunk: Hunk;
+    if (last?.type === 'hunk') hunk = last.hunk;
+    else { hunk = { id: hunkId++, oldStart: oldNo, oldLines: [], newStart: newNo, newLines: [] }; parts.push({ type: 'hunk', hunk }); }
+    if (op.type === 'delete') { hunk.oldLines.push(op.line); oldNo++; }
+    else { hunk.newLines.push(op.line); newNo++; }
+  }
+  return parts;
+}
+
+export function sideBySide(parts: DiffPart[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let oldNo = 1; let newNo = 1;
+  for (const part of parts) {
+    if (part.type === 'equal') {
+      for (const line of part.lines) rows.push({ left: line, right: line, leftNo: oldNo++, rightNo: newNo++ });
+      continue;
+    }
+    const { id, oldLines, newLines } = part.hunk;
+    for (let i = 0; i < Math.max(oldLines.length, newLines.length); i++) {
+      const row: SideBySideRow = { hunkId: id };
+      if (i < oldLines.length) { row.left = oldLines[i]; row.leftNo = oldNo++; }
+      if (i < newLines.length) { row.right = newLines[i]; row.rightNo = newNo++; }
+      rows.push(row);
+    }
+  }
+  return rows;
+}
+
+/** Merged draft: left text, with every accepted hunk replaced by the right side. */
+export function mergeParts(parts: DiffPart[], decisions: Record<number, HunkDecision>): string {
+  return parts.flatMap((part) => {
+    if (part.type === 'equal') return part.lines;
+    return decisions[part.hunk.id] === 'accept' ? part.hunk.newLines : part.hunk.oldLines;
+  }).join('\n');
+}
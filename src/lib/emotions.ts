@@ -0,0 +1,18 @@
+// AI-CoDirector — shared emotion vocabulary and palette (Tailwind background classes).
+
+export const EMOTIONS = ['anger', 'disgust', 'fear', 'joy', 'neutral', 'sadness', 'surprise'] as const;
+export type Emotion = typeof EMOTIONS[number];
+
+export const EMOTION_COLORS: Record<string, string> = {
+  anger: 'bg-red-500',
+  disgust: 'bg-purple-500',
+  fear: 'bg-orange-500',
+  joy: 'bg-yellow-400',
+  neutral: 'bg-gray-400',
+  sadness: 'bg-blue-400',
+  surprise: 'bg-pink-400',
+};
+
+export function emotionColor(emotion?: string, fallback = 'bg-blue-500') {
+  return (emotion && EMOTION_COLORS[emotion.toLowerCase()]) || fallback;
+}
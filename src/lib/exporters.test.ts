@@ -0,0 +1,64 @@
+import { paginate, titlePageFor, toFdx, wrapText } from './exporters';
+import { parseScreenplay } from './screenplay';
+
+const meta = { genre: 'Thriller', date: new Date(2026, 0, 5) };
+
+test('wraps text to the column width', () => {
+  expect(wrapText('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+});
+
+test('title page carries genre and draft date', () => {
+  const tp = titlePageFor(parseScreenplay('INT. ROOM - DAY'), meta);
+  expect(tp).toMatchObject({ title: 'Untitled', genre: 'Thriller', 'draft date': 'January 5, 2026' });
+});
+
+test('splits long dialogue across pages with MORE / CONT\'D', () => {
+  const speech = Array.from({ length: 30 }, (_, i) => `Line ${i}.`).join('\n');
+  const pages = paginate(parseScreenplay(`INT. ROOM - DAY\n\nA room.\n\nMAYA\n${speech}`), 20);
+  expect(pages.length).toBeGreaterThan(1);
+  expect(pages[0][pages[0].length - 1].text).toBe('(MORE)');
+  expect(pages[1][0].text).toBe("MAYA (CONT'D)");
+  expect(pages.every((p) => p.length <= 20)).toBe(true);
+});
+
+test('keeps splitting a speech longer than two pages', () => {
+  const speech = Array.from({ length: 50 }, (_, i) => `Line ${i}.`).join('\n');
+  const pages = paginate(parseScreenplay(`INT. ROOM - DAY\n\nMAYA\n${speech}`), 20);
+  expect(pages.length).toBe(3);
+  expect(pages.every((p) => p.length <= 20)).toBe(true);
+  expect(pages.map((p) => p[p.length - 1].text)).toEqual(['(MORE)', '(MORE)', 'Line 49.']);
+  expect(pages.slice(1).map((p) => p[0].text)).toEqual(["MAYA (CONT'D)", "MAYA (CONT'D)"]);
+  expect(pages.flat().filter((l) => l.text.startsWith('Line ')).length).toBe(50);
+});
+
+test('long action and speeches starting on a fresh page still fit every page', () => {
+  const action = Array.from({ length: 45 }, (_, i) => `Beat ${i}.`).join('\n');
+  const speech = Array.from({ length: 30 }, (_, i) => `Line ${i}.`).join('\n');
+  const pages = paginate(parseScreenplay(`INT. ROOM - DAY\n\n${action}\n\nMAYA\n${speech}`), 20);
+  expect(pages.every((p) => p.length <= 20)).toBe(true);
+  expect(pages.flat().filter((l) => l.text.startsWith('Beat ')).length).toBe(45);
+  expect(pages.flat().filter((l) => l.text.startsWith('Line ')).length).toBe(30);
+  // Every page after the cue's page opens with the CONT'D cue, and every page it carries on from ends in (MORE)
+  const cue = pages.findIndex((p) => p.some((l) => l.text === 'MAYA'));
+  expect(pages.slice(cue, -1).map((p) => p[p.length - 1].text)).toEqual(pages.slice(cue, -1).map(() => '(MORE)'));
+  expect(pages.slice(cue + 1).every((p) => p[0].text === "MAYA (CONT'D)")).toBe(true);
+});
+
+test('never leaves a scene heading at the bottom of a page', () => {
+  const filler = Array.from({ length: 17 }, (_, i) => `Beat ${i}.`).join('\n');
+  const pages = paginate(parseScreenplay(`INT. A - DAY\n\n${filler}\n\nINT. B - NIGHT\n\nSomething happens.`), 20);
+  expect(pages[1].find((l) => l.text === 'INT. B - NIGHT')).toBeDefined();
+});
+
+test('honours explicit page breaks', () => {
+  const pages = paginate(parseScreenplay('INT. A - DAY\n\nOne.\n\n===\n\nTwo.'));
+  expect(pages.map((p) => p.filter((l) => l.text).map((l) => l.text))).toEqual([['INT. A - DAY', 'One.'], ['Two.']]);
+});
+
+test('writes Final Draft XML with escaped text and scene numbers', () => {
+  const fdx = toFdx(parseScreenplay('INT. BAR & GRILL - NIGHT\n\nMAYA\n<whispers>'), meta);
+  expect(fdx).toContain('<Paragraph Type="Scene Heading" Number="1">');
+  expect(fdx).toContain('<Text>INT. BAR &amp; GRILL - NIGHT</Text>');
+  expect(fdx).toContain('<Paragraph Type="Dialogue">\n      <Text>&lt;whispers&gt;</Text>');
+  expect(fdx).toContain('<Text>Genre: Thriller</Text>');
+});
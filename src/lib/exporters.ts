@@ -0,0 +1,297 @@
+// AI-CoDirector — screenplay export: PDF, DOCX, Fountain and Final Draft (FDX).
+// - Shared pagination (54 lines/page, Courier 12pt) so PDF output matches industry page counts
+// - Dialogue split across pages gets (MORE) / (CONT'D); scene headings never end a page
+// - Every format carries a title page with the genre and draft date
+
+import { saveAs } from "file-saver";
+import { ElementType, LAYOUT, PAGE, Screenplay, toFountain } from "./screenplay";
+
+// -------------------- Types
+export type ExportFormat = 'pdf' | 'docx' | 'fountain' | 'fdx';
+export type ExportMeta = { title?: string; genre?: string; date?: Date };
+export type PageLine = { text: string; indent: number; align?: 'left' | 'right' | 'center'; bold?: boolean; sceneNumber?: string };
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; ext: string }[] = [
+  { format: 'pdf', label: 'PDF', ext: 'pdf' },
+  { format: 'docx', label: 'Word (DOCX)', ext: 'docx' },
+  { format: 'fountain', label: 'Fountain', ext: 'fountain' },
+  { format: 'fdx', label: 'Final Draft (FDX)', ext: 'fdx' },
+];
+
+const CHARS_PER_INCH = 10;
+const LINE_HEIGHT = 1 / 6; // 12pt leading, in inches
+const SPACE_BEFORE: Record<ElementType, number> = {
+  scene_heading: 2, action: 1, character: 1, parenthetical: 0, dialogue: 0, transition: 1, centered: 1, page_break: 0,
+};
+
+// -------------------- Title page
+export function titlePageFor(doc: Screenplay, meta: ExportMeta = {}): Record<string, string> {
+  const date = (meta.date ?? new Date()).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  return {
+    ...doc.titlePage,
+    title: doc.titlePage.title || meta.title || 'Untitled',
+    ...(meta.genre ? { genre: meta.genre } : {}),
+    'draft date': doc.titlePage['draft date'] || date,
+  };
+}
+
+function titleLines(tp: Record<string, string>) {
+  const center = [tp.title.toUpperCase(), '', tp.credit, tp.author || tp.authors, tp.source].filter((l) => l !== undefined);
+  const corner = [tp.genre && `Genre: ${tp.genre}`, tp['draft date'], tp.contact].filter(Boolean) as string[];
+  return { center: center.flatMap((l) => l.split('\n')), corner: corner.flatMap((l) => l.split('\n')) };
+}
+
+// -------------------- Pagination
+type Block = { lines: PageLine[]; space: number; type: ElementType; cue?: string; breakBefore?: boolean };
+
+export function wrapText(text: string, width: number): string[] {
+  const out: string[] = [];
+  for (const para of text.split('\n')) {
+    let line = '';
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+      else { out.push(line); line = word; }
+      while (line.length > width) { out.push(line.slice(0, width)); line = line.slice(width); }
+    }
+    out.push(line);
+  }
+  return out;
+}
+
+function layoutElement(type: ElementType, text: string, sceneNumber?: string): PageLine[] {
+  const { indent, width, align } = LAYOUT[type];
+  const upper = type === 'scene_heading' || type === 'character' || type === 'transition';
+  return wrapText(upper ? text.toUpperCase() : text, Math.floor(width * CHARS_PER_INCH)).map((t, i) => ({
+    text: t, indent, align, bold: type === 'scene_heading', sceneNumber: i === 0 ? sceneNumber : undefined,
+  }));
+}
+
+function toBlocks(doc: Screenplay): Block[] {
+  const blocks: Block[] = [];
+  let breakNext = false;
+  for (const el of doc.elements) {
+    if (el.type === 'page_break') { breakNext = true; continue; }
+    const lines = layoutElement(el.type, el.text, el.sceneNumber);
+    const last = blocks[blocks.length - 1];
+    if ((el.type === 'parenthetical' || el.type === 'dialogue') && last?.type === 'character') last.lines.push(...lines);
+    else blocks.push({ lines, space: SPACE_BEFORE[el.type], type: el.type, cue: el.type === 'character' ? el.text.replace(/\s*\(CONT'D\)$/i, '') : undefined, breakBefore: breakNext });
+    breakNext = false;
+  }
+  return blocks;
+}
+
+export function paginate(doc: Screenplay, linesPerPage = PAGE.linesPerPage): PageLine[][] {
+  const pages: PageLine[][] = [[]];
+  const blocks = toBlocks(doc);
+  const page = () => pages[pages.length - 1];
+  const room = () => linesPerPage - page().length;
+  const blank: PageLine = { text: '', indent: 0 };
+  const pad = (space: number) => { for (let s = 0; s < space; s++) page().push(blank); };
+
+  // Dialogue: cue + at least one line here, (MORE) at the bottom, CONT'D on each following page
+  // until the remainder fits
+  const splitDialogue = (block: Block, space: number) => {
+    const more: PageLine = { text: '(MORE)', indent: LAYOUT.character.indent };
+    const cont = layoutElement('character', `${block.cue} (CONT'D)`);
+    pad(space);
+    const first = room() - 1;
+    page().push(...block.lines.slice(0, first), more);
+    let rest = block.lines.slice(first);
+    while (cont.length + rest.length > linesPerPage) {
+      const take = Math.max(1, linesPerPage - cont.length - 1);
+      pages.push([...cont, ...rest.slice(0, take), more]);
+      rest = rest.slice(take);
+    }
+    pages.push([...cont, ...rest]);
+  };
+  // Action (and anything else too long for a page): fill this page, then whole pages
+  const splitLines = (lines: PageLine[], space: number) => {
+    pad(space);
+    const first = room();
+    page().push(...lines.slice(0, first));
+    for (let at = first; at < lines.length; at += linesPerPage) pages.push(lines.slice(at, at + linesPerPage));
+  };
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (block.breakBefore && page().length) pages.push([]);
+    const space = page().length ? block.space : 0;
+    // Scene headings must be followed by at least two lines of the next block on the same page
+    const next = blocks[i + 1];
+    const needed = block.type === 'scene_heading' && next ? block.lines.length + next.space + Math.min(2, next.lines.length) : block.lines.length;
+
+    if (space + needed <= room()) {
+      pad(space);
+      page().push(...block.lines);
+      continue;
+    }
+
+    const avail = room() - space;
+    const dialogue = block.type === 'character' && !!block.cue;
+    if (dialogue && avail >= 3 && block.lines.length - (avail - 1) >= 1) { splitDialogue(block, space); continue; }
+    if (block.type === 'action' && avail >= 2 && block.lines.length - avail >= 2) { splitLines(block.lines, space); continue; }
+
+    if (page().length) pages.push([]);
+    if (block.lines.length <= linesPerPage) page().push(...block.lines);
+    else if (dialogue) splitDialogue(block, 0);
+    else splitLines(block.lines, 0);
+  }
+  return pages.filter((p, i) => p.length || i === 0);
+}
+
+// -------------------- Fountain
+export function exportFountain(doc: Screenplay, meta: ExportMeta = {}): Blob {
+  return new Blob([toFountain({ ...doc, titlePage: titlePageFor(doc, meta) })], { type: 'text/plain;charset=utf-8' });
+}
+
+// -------------------- Final Draft (FDX)
+const FDX_TYPES: Partial<Record<ElementType, string>> = {
+  scene_heading: 'Scene Heading', action: 'Action', character: 'Character', parenthetical: 'Parenthetical',
+  dialogue: 'Dialogue', transition: 'Transition', centered: 'Action',
+};
+
+const xml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function toFdx(doc: Screenplay, meta: ExportMeta = {}): string {
+  const paragraphs: string[] = [];
+  let newPage = false;
+  for (const el of doc.elements) {
+    if (el.type === 'page_break') { newPage = true; continue; }
+    const attrs = [
+      `Type="${FDX_TYPES[el.type]}"`,
+      el.type === 'scene_heading' && el.sceneNumber ? `Number="${xml(el.sceneNumber)}"` : '',
+      el.type === 'centered' ? 'Alignment="Center"' : '',
+      newPage ? 'StartsNewPage="Yes"' : '',
+    ].filter(Boolean).join(' ');
+    paragraphs.push(`    <Paragraph ${attrs}>\n      <Text>${xml(el.text)}</Text>\n    </Paragraph>`);
+    newPage = false;
+  }
+
+  const { center, corner } = titleLines(titlePageFor(doc, meta));
+  const titleParas = [
+    ...Array(12).fill('      <Paragraph Alignment="Center" Type="Action"><Text></Text></Paragraph>'),
+    ...center.map((l) => `      <Paragraph Alignment="Center" Type="Action"><Text>${xml(l)}</Text></Paragraph>`),
+    ...Array(16).fill('      <Paragraph Alignment="Left" Type="Action"><Text></Text></Paragraph>'),
+    ...corner.map((l) => `      <Paragraph Alignment="Left" Type="Action"><Text>${xml(l)}</Text></Paragraph>`),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...paragraphs,
+    '  </Content>',
+    '  <TitlePage>',
+    '    <Content>',
+    ...titleParas,
+    '    </Content>',
+    '  </TitlePage>',
+    '</FinalDraft>',
+    '',
+  ].join('\n');
+}
+
+export function exportFdx(doc: Screenplay, meta: ExportMeta = {}): Blob {
+  return new Blob([toFdx(doc, meta)], { type: 'application/xml;charset=utf-8' });
+}
+
+// -------------------- PDF
+export async function exportPdf(doc: Screenplay, meta: ExportMeta = {}): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: 'in', format: 'letter' });
+  const left = PAGE.marginLeft;
+  const right = PAGE.width - PAGE.marginRight;
+  const baseline = (row: number) => PAGE.marginTop + (row + 0.8) * LINE_HEIGHT;
+  pdf.setFont('courier', 'normal');
+  pdf.setFontSize(12);
+
+  const { center, corner } = titleLines(titlePageFor(doc, meta));
+  center.forEach((l, i) => {
+    pdf.setFont('courier', i === 0 ? 'bold' : 'normal');
+    pdf.text(l, PAGE.width / 2, baseline(18 + i), { align: 'center' });
+  });
+  pdf.setFont('courier', 'normal');
+  corner.forEach((l, i) => pdf.text(l, left, baseline(PAGE.linesPerPage - corner.length + i)));
+
+  paginate(doc).forEach((lines, p) => {
+    pdf.addPage();
+    if (p > 0) pdf.text(`${p + 1}.`, right, PAGE.marginTop / 2, { align: 'right' });
+    lines.forEach((line, row) => {
+      if (!line.text) return;
+      const y = baseline(row);
+      pdf.setFont('courier', line.bold ? 'bold' : 'normal');
+      if (line.align === 'right') pdf.text(line.text, right, y, { align: 'right' });
+      else if (line.align === 'center') pdf.text(line.text, left + 3, y, { align: 'center' });
+      else pdf.text(line.text, left + line.indent, y);
+      if (line.sceneNumber) {
+        pdf.setFont('courier', 'normal');
+        pdf.text(line.sceneNumber, left - 0.75, y);
+        pdf.text(line.sceneNumber, right + 0.25, y);
+      }
+    });
+  });
+  return pdf.output('blob');
+}
+
+// -------------------- DOCX
+export async function exportDocx(doc: Screenplay, meta: ExportMeta = {}): Promise<Blob> {
+  const { AlignmentType, Document, Header, Packer, PageNumber, Paragraph, TextRun } = await import("docx");
+  const twips = (inches: number) => Math.round(inches * 1440);
+  const font = { font: 'Courier New', size: 24 };
+  const runs = (text: string, bold = false) => text.split('\n').map((line, i) => new TextRun({ ...font, text: line, bold, break: i ? 1 : undefined }));
+  const page = {
+    size: { width: twips(PAGE.width), height: twips(PAGE.height) },
+    margin: { top: twips(PAGE.marginTop), bottom: twips(PAGE.marginBottom), left: twips(PAGE.marginLeft), right: twips(PAGE.marginRight), header: twips(0.5) },
+  };
+
+  const { center, corner } = titleLines(titlePageFor(doc, meta));
+  const titleChildren = [
+    ...center.map((l, i) => new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: i === 0 ? twips(3) : 0 }, children: runs(l, i === 0) })),
+    ...corner.map((l, i) => new Paragraph({ spacing: { before: i === 0 ? twips(4) : 0 }, children: runs(l) })),
+  ];
+
+  let pageBreak = false;
+  const body: InstanceType<typeof Paragraph>[] = [];
+  for (const el of doc.elements) {
+    if (el.type === 'page_break') { pageBreak = true; continue; }
+    const { indent, width, align } = LAYOUT[el.type];
+    const upper = el.type === 'scene_heading' || el.type === 'character' || el.type === 'transition';
+    body.push(new Paragraph({
+      children: runs(upper ? el.text.toUpperCase() : el.text, el.type === 'scene_heading'),
+      indent: { left: twips(indent), right: twips(6 - indent - width) },
+      alignment: align === 'right' ? AlignmentType.RIGHT : align === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT,
+      spacing: { before: body.length ? SPACE_BEFORE[el.type] * 240 : 0, after: 0 },
+      keepNext: el.type === 'scene_heading' || el.type === 'character' || el.type === 'parenthetical',
+      keepLines: el.type !== 'action',
+      pageBreakBefore: pageBreak || undefined,
+    }));
+    pageBreak = false;
+  }
+
+  const document = new Document({
+    sections: [
+      { properties: { page }, children: titleChildren },
+      {
+        properties: { page: { ...page, pageNumbers: { start: 1 } }, titlePage: true },
+        headers: {
+          first: new Header({ children: [] }),
+          default: new Header({ children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ ...font, children: [PageNumber.CURRENT, '.'] })] })] }),
+        },
+        children: body,
+      },
+    ],
+  });
+  return Packer.toBlob(document);
+}
+
+// -------------------- Download
+export async function downloadScript(format: ExportFormat, doc: Screenplay, meta: ExportMeta = {}) {
+  const blob = format === 'pdf' ? await exportPdf(doc, meta)
+    : format === 'docx' ? await exportDocx(doc, meta)
+    : format === 'fdx' ? exportFdx(doc, meta)
+    : exportFountain(doc, meta);
+  const ext = EXPORT_FORMATS.find((f) => f.format === format)!.ext;
+  const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  saveAs(blob, `${slug(titlePageFor(doc, meta).title) || 'script'}${meta.genre ? `_${slug(meta.genre)}` : ''}.${ext}`);
+}
@@ -0,0 +1,58 @@
+import { countdown, openCamera, recordTake, validateVideoFile } from './media';
+import type { MediaDeps } from './media';
+
+// Minimal MediaRecorder stand-in: stop() flushes one chunk, then fires onstop
+class FakeRecorder {
+  static isTypeSupported = (t: string) => t === 'video/webm';
+  state = 'inactive';
+  mimeType: string;
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  constructor(public stream: MediaStream, options?: { mimeType?: string }) { this.mimeType = options?.mimeType ?? ''; }
+  start() { this.state = 'recording'; }
+  stop() { this.state = 'inactive'; this.ondataavailable?.({ data: new Blob(['frame'], { type: 'video/webm' }) }); this.onstop?.(); }
+}
+
+const fakeStream = () => ({ getTracks: () => [{ stop: jest.fn() }] }) as unknown as MediaStream;
+
+afterEach(() => jest.useRealTimers());
+
+test('validates type and size of uploads and takes', () => {
+  expect(validateVideoFile(new Blob(['x'], { type: 'video/webm' }))).toBe('');
+  expect(validateVideoFile(new Blob(['x'], { type: 'image/png' }))).toBe('Please upload a valid video file');
+  const big = { type: 'video/mp4', size: 51 * 1024 * 1024 } as Blob;
+  expect(validateVideoFile(big)).toBe('File too large (50MB max)');
+});
+
+test('opens the camera through the injected getUserMedia', async () => {
+  const stream = fakeStream();
+  const getUserMedia = jest.fn().mockResolvedValue(stream);
+  await expect(openCamera({ getUserMedia })).resolves.toBe(stream);
+  expect(getUserMedia.mock.calls[0][0]).toMatchObject({ audio: true });
+});
+
+test('counts down once per second', async () => {
+  jest.useFakeTimers();
+  const ticks: number[] = [];
+  const done = countdown(3, (n) => ticks.push(n));
+  jest.advanceTimersByTime(3000);
+  await done;
+  expect(ticks).toEqual([3, 2, 1, 0]);
+});
+
+test('records a take into a numbered video file', async () => {
+  const rec = recordTake(fakeStream(), 2, { MediaRecorder: FakeRecorder as unknown as MediaDeps['MediaRecorder'] });
+  rec.stop();
+  const file = await rec.done;
+  expect(file.name).toBe('take-2.webm');
+  expect(file.type).toBe('video/webm');
+  expect(file.size).toBeGreaterThan(0);
+});
+
+test('stops a take automatically at the time limit', async () => {
+  jest.useFakeTimers();
+  const rec = recordTake(fakeStream(), 1, { MediaRecorder: FakeRecorder as unknown as MediaDeps['MediaRecorder'], maxSeconds: 5 });
+  jest.advanceTimersByTime(5000);
+  await expect(rec.done).resolves.toBeInstanceOf(File);
+});
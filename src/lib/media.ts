@@ -0,0 +1,68 @@
+// AI-CoDirector — video file checks and webcam take recording (getUserMedia + MediaRecorder).
+// Browser APIs are injectable so tests can drive the recorder with a fake media stream.
+
+// -------------------- Validation
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+/** Same rules for uploads and recorded takes; returns an error message, or '' when the file is usable. */
+export function validateVideoFile(f: Blob): string {
+  if (!f.type.startsWith('video/')) return 'Please upload a valid video file';
+  if (f.size > MAX_VIDEO_BYTES) return 'File too large (50MB max)';
+  return '';
+}
+
+// -------------------- Webcam
+export type MediaDeps = {
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  MediaRecorder?: { new (stream: MediaStream, options?: MediaRecorderOptions): MediaRecorder; isTypeSupported?: (type: string) => boolean };
+};
+
+export const MAX_TAKE_SECONDS = 60;
+
+export function openCamera(deps: MediaDeps = {}): Promise<MediaStream> {
+  const getUserMedia = deps.getUserMedia ?? navigator.mediaDevices?.getUserMedia?.bind(navigator.mediaDevices);
+  if (!getUserMedia) return Promise.reject(new Error('Camera access is not supported in this browser'));
+  return getUserMedia({ video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } }, audio: true });
+}
+
+export function stopStream(stream: MediaStream | null | undefined) {
+  stream?.getTracks().forEach((t) => t.stop());
+}
+
+/** Resolves after `seconds` ticks of one second, calling onTick with the seconds remaining. */
+export function countdown(seconds: number, onTick: (left: number) => void, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let left = seconds;
+    onTick(left);
+    if (left <= 0) return resolve();
+    const timer = setInterval(() => {
+      left--; onTick(left);
+      if (left <= 0) { clearInterval(timer); resolve(); }
+    }, 1000);
+    signal?.addEventListener('abort', () => { clearInterval(timer); reject(new DOMException('Countdown cancelled', 'AbortError')); }, { once: true });
+  });
+}
+
+export type TakeRecording = { stop: () => void; done: Promise<File> };
+
+/** Start recording a take; it stops on stop() or after maxSeconds, and `done` yields the video file. */
+export function recordTake(stream: MediaStream, takeNumber: number, { maxSeconds = MAX_TAKE_SECONDS, ...deps }: MediaDeps & { maxSeconds?: number } = {}): TakeRecording {
+  const Recorder = deps.MediaRecorder ?? window.MediaRecorder;
+  if (!Recorder) throw new Error('Recording is not supported in this browser');
+  const mimeType = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'].find((t) => Recorder.isTypeSupported?.(t));
+  const recorder = new Recorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+
+  const done = new Promise<File>((resolve, reject) => {
+    recorder.onstop = () => {
+      const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+      resolve(new File(chunks, `take-${takeNumber}.${type === 'video/mp4' ? 'mp4' : 'webm'}`, { type }));
+    };
+    recorder.onerror = () => reject(new Error('Recording failed'));
+  });
+  const stop = () => { clearTimeout(limit); if (recorder.state !== 'inactive') recorder.stop(); };
+  const limit = setTimeout(stop, maxSeconds * 1000);
+  recorder.start(1000);
+  return { stop, done };
+}
@@ -0,0 +1,41 @@
+import { formatPageRange, pageStatus, parsePageRange, selectedText, textFromRuns, TextRun } from './pdfText';
+
+// Courier 12pt runs: x in points from the left edge, y from the bottom
+const run = (str: string, x: number, y: number, width = str.length * 7.2): TextRun => ({ str, transform: [12, 0, 0, 12, x, y], width, height: 12 });
+
+test('rebuilds lines in reading order with blank lines between blocks', () => {
+  const runs = [
+    run('2.', 530, 750),
+    run('Maya turns.', 108, 696),
+    run('MAYA', 266, 660),
+    run('I never', 180, 648),
+    run('said goodbye.', 238, 648),
+    run('INT. KITCHEN', 108, 612),
+    run('- NIGHT', 202, 612),
+  ];
+  expect(textFromRuns(runs)).toBe('Maya turns.\n\nMAYA\nI never said goodbye.\n\nINT. KITCHEN - NIGHT');
+  expect(textFromRuns([run('  ', 0, 0)])).toBe('');
+});
+
+test('flags scanned and blank pages', () => {
+  expect(pageStatus('FADE IN: a long enough line of text', true)).toBe('ok');
+  expect(pageStatus(' 3. ', true)).toBe('scanned');
+  expect(pageStatus('', false)).toBe('blank');
+  expect(pageStatus('THE END', false)).toBe('ok');
+});
+
+test('parses and formats page ranges', () => {
+  expect(parsePageRange('1-3, 5, 8-', 9)).toEqual([1, 2, 3, 5, 8, 9]);
+  expect(parsePageRange('-2,2', 9)).toEqual([1, 2]);
+  expect(parsePageRange('', 3)).toEqual([1, 2, 3]);
+  expect(parsePageRange('4-2', 9)).toBeNull();
+  expect(parsePageRange('10', 9)).toBeNull();
+  expect(parsePageRange('a', 9)).toBeNull();
+  expect(formatPageRange([5, 1, 2, 3, 9])).toBe('1-3, 5, 9');
+});
+
+test('joins the text of selected pages', () => {
+  const pages = [{ number: 1, text: 'One', status: 'ok' as const }, { number: 2, text: '', status: 'scanned' as const }, { number: 3, text: 'Three', status: 'ok' as const }];
+  expect(selectedText(pages, [1, 2, 3])).toBe('One\n\nThree');
+  expect(selectedText(pages, [3])).toBe('Three');
+});
@@ -0,0 +1,132 @@
+// AI-CoDirector — read script PDFs in the browser (pdf.js, loaded on demand).
+// - Rebuilds lines from positioned text runs, keeping blank lines between blocks so the
+//   screenplay parser still sees cues and dialogue
+// - Flags image-only (scanned) and blank pages, which carry no extractable text
+// - Page-range parsing ("1-3, 5, 8-") for choosing what gets sent for generation
+
+// -------------------- Types
+export type PdfPageStatus = 'ok' | 'scanned' | 'blank';
+export type PdfPage = { number: number; text: string; status: PdfPageStatus };
+export type TextRun = { str: string; transform: number[]; width?: number; height?: number; hasEOL?: boolean };
+
+/** Fewer printable characters than this on a page with images means it was scanned. */
+export const SCANNED_MAX_CHARS = 20;
+
+// -------------------- Layout
+/** Join positioned runs into lines (top to bottom, left to right); a large vertical gap becomes a blank line. */
+export function textFromRuns(runs: TextRun[]): string {
+  const items = runs.filter((r) => r.str.trim()).map((r) => ({ str: r.str, x: r.transform[4], y: r.transform[5], w: r.width ?? 0, h: r.height || Math.abs(r.transform[3]) || 10 }));
+  if (!items.length) return '';
+  const lines: { y: number; h: number; parts: typeof items }[] = [];
+  for (const it of items.sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines.find((l) => Math.abs(l.y - it.y) <= Math.min(l.h, it.h) / 2);
+    if (line) line.parts.push(it); else lines.push({ y: it.y, h: it.h, parts: [it] });
+  }
+  lines.sort((a, b) => b.y - a.y);
+
+  // Single spacing is the tightest gap between lines of ordinary text height
+  const textHeight = items.map((it) => it.h).sort((a, b) => a - b)[Math.floor(items.length / 2)];
+  const lineHeight = Math.min(...lines.slice(1).map((l, i) => lines[i].y - l.y).filter((g) => g >= textHeight * 0.8), textHeight * 1.2);
+  const out: string[] = [];
+  lines.forEach((line, i) => {
+    if (i && lineHeight && lines[i - 1].y - line.y > lineHeight * 1.5) out.push('');
+    const parts = line.parts.sort((a, b) => a.x - b.x);
+    let text = '';
+    parts.forEach((p, j) => {
+      const prev = parts[j - 1];
+      // Runs that don't touch are separate words even when the PDF omits the space
+      if (prev && !/\s$/.test(text) && !/^\s/.test(p.str) && p.x - (prev.x + prev.w) > p.h * 0.15) text += ' ';
+      text += p.str;
+    });
+    out.push(text.replace(/\s+/g, ' ').trim());
+  });
+  // Screenplay page numbers ("12.") sit alone at the top or bottom of the page
+  if (/^\d+\.?$/.test(out[0])) out.shift();
+  if (/^\d+\.?$/.test(out[out.length - 1] ?? '')) out.pop();
+  return out.join('\n').trim();
+}
+
+export function pageStatus(text: string, hasImages: boolean): PdfPageStatus {
+  const chars = text.replace(/\s/g, '').length;
+  if (chars >= SCANNED_MAX_CHARS) return 'ok';
+  return hasImages ? 'scanned' : chars ? 'ok' : 'blank';
+}
+
+// -------------------- Extraction
+type PdfJs = typeof import("pdfjs-dist");
+let pdfjs: Promise<PdfJs> | null = null;
+
+function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjs) {
+    // The webpack entry bundles pdf.worker.js and starts it as a real Worker
+    pdfjs = import("pdfjs-dist/webpack");
+    pdfjs.catch(() => { pdfjs = null; });
+  }
+  return pdfjs;
+}
+
+/** Extract every page of a PDF; onPage reports each page as it is read. */
+export async function extractPdf(file: Blob, { signal, onPage }:{ signal?: AbortSignal; onPage?: (page: PdfPage, total: number) => void } = {}): Promise<PdfPage[]> {
+  const lib = await loadPdfJs();
+  const task = lib.getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+  // Cancelling destroys the task to interrupt loading; finally must not destroy it a second time
+  let destroyed = false;
+  const destroy = () => { if (!destroyed) { destroyed = true; task.destroy(); } };
+  const onAbort = () => destroy();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const doc = await task.promise;
+    const imageOps = new Set([lib.OPS.paintImageXObject, lib.OPS.paintInlineImageXObject, lib.OPS.paintImageMaskXObject, lib.OPS.paintImageXObjectRepeat]);
+    const pages: PdfPage[] = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+      if (signal?.aborted) throw new DOMException('PDF reading cancelled', 'AbortError');
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      const text = textFromRuns(content.items.flatMap((i) => ('str' in i ? [i] : [])));
+      // Only look for images when the text layer is thin; the operator list is the slow part
+      const hasImages = text.replace(/\s/g, '').length < SCANNED_MAX_CHARS && (await page.getOperatorList()).fnArray.some((op) => imageOps.has(op));
+      const result: PdfPage = { number: n, text, status: pageStatus(text, hasImages) };
+      pages.push(result);
+      onPage?.(result, doc.numPages);
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    destroy();
+  }
+}
+
+// -------------------- Page selection
+/** "1-3, 5, 8-" → [1, 2, 3, 5, 8, …, total]; null when the range can't be read or is out of bounds. */
+export function parsePageRange(range: string, total: number): number[] | null {
+  if (!range.trim()) return Array.from({ length: total }, (_, i) => i + 1);
+  const pages = new Set<number>();
+  for (const part of range.split(',')) {
+    const m = /^\s*(\d*)\s*(?:(-)\s*(\d*))?\s*$/.exec(part);
+    if (!m || (!m[1] && !m[3])) return null;
+    const from = m[1] ? Number(m[1]) : 1;
+    const to = m[2] ? (m[3] ? Number(m[3]) : total) : from;
+    if (from < 1 || to > total || from > to) return null;
+    for (let n = from; n <= to; n++) pages.add(n);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/** The shortest range string for a page selection, e.g. [1, 2, 3, 5] → "1-3, 5". */
+export function formatPageRange(pages: number[]): string {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const spans: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    spans.push(j > i ? `${sorted[i]}-${sorted[j]}` : String(sorted[i]));
+    i = j;
+  }
+  return spans.join(', ');
+}
+
+export function selectedText(pages: PdfPage[], selection: number[]): string {
+  const wanted = new Set(selection);
+  return pages.filter((p) => wanted.has(p.number) && p.text.trim()).map((p) => p.text).join('\n\n');
+}
@@ -0,0 +1,4 @@
+// pdfjs-dist/webpack ships without typings; it re-exports "pdfjs-dist" after wiring up the worker.
+declare module "pdfjs-dist/webpack" {
+  export * from "pdfjs-dist";
+}
@@ -0,0 +1,73 @@
+import 'fake-indexeddb/auto';
+import { addVersion, deleteEntry, duplicateEntry, entryVersions, getEntry, listEntries, renameEntry, saveEntry, saveGeneration, searchEntries, subscribe, tagLine } from './projectStore';
+
+const script = { kind: 'script' as const, input: { genre: 'Drama', text: 'A quiet kitchen.' }, output: { final_script: 'INT. KITCHEN - NIGHT' } };
+const analysis = {
+  kind: 'analysis' as const,
+  input: { intendedEmotion: 'anger', video: { name: 'take3.mp4', size: 1024, type: 'video/mp4' } },
+  output: { predicted_emotion: 'sadness', confidence: 0.7, match: false },
+};
+
+afterEach(async () => {
+  for (const e of await listEntries()) await deleteEntry(e.id);
+});
+
+test('saves entries with default names, newest first', async () => {
+  await saveEntry(script);
+  await new Promise((r) => setTimeout(r, 2));
+  await saveEntry(analysis);
+  const list = await listEntries();
+  expect(list.map((e) => e.name)).toEqual(['take3.mp4 — anger', 'A quiet kitchen. (Drama)']);
+});
+
+test('renames, duplicates and deletes', async () => {
+  const saved = await saveEntry(script);
+  await renameEntry(saved.id, 'Kitchen scene');
+  const copy = await duplicateEntry(saved.id);
+  expect(copy?.name).toBe('Kitchen scene (copy)');
+  expect(copy?.id).not.toBe(saved.id);
+  await deleteEntry(saved.id);
+  expect((await listEntries()).map((e) => e.name)).toEqual(['Kitchen scene (copy)']);
+});
+
+test('notifies subscribers on change', async () => {
+  const listener = jest.fn();
+  const unsubscribe = subscribe(listener);
+  await saveEntry(script);
+  unsubscribe();
+  await saveEntry(script);
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('searches inputs and outputs', async () => {
+  await saveEntry(script);
+  await saveEntry(analysis);
+  const list = await listEntries();
+  expect(searchEntries(list, 'kitchen').map((e) => e.kind)).toEqual(['script']);
+  expect(searchEntries(list, 'SADNESS').map((e) => e.kind)).toEqual(['analysis']);
+  expect(searchEntries(list, '  ')).toHaveLength(2);
+});
+
+test('regenerating the same source adds versions to one entry', async () => {
+  const first = await saveGeneration({ genre: 'Drama', text: 'A quiet kitchen.' }, { final_script: 'drama' });
+  const second = await saveGeneration({ genre: 'Thriller', text: '  A quiet kitchen.\n' }, { final_script: 'thriller' });
+  await saveGeneration({ genre: 'Drama', pdfName: 'pilot.pdf' }, { final_script: 'pdf' });
+  expect(second.id).toBe(first.id);
+  expect(entryVersions(second).map((v) => [v.genre, v.output.final_script])).toEqual([['Drama', 'drama'], ['Thriller', 'thriller']]);
+  expect(second.output.final_script).toBe('thriller');
+
+  const merged = await addVersion(first.id, { genre: 'Drama', output: { final_script: 'merged' }, label: 'Merged' });
+  expect(entryVersions(merged!).map((v) => v.label)).toEqual([undefined, undefined, 'Merged']);
+  expect(await listEntries()).toHaveLength(2);
+});
+
+test('tags and untags script lines', async () => {
+  const saved = await saveEntry(script);
+  await tagLine(saved.id, 'maya|hello', { emotion: 'joy' });
+  const tagged = await tagLine(saved.id, 'tom|bye', { emotion: 'sadness', take: { videoName: 't.webm', at: 1, result: analysis.output } });
+  expect(Object.keys(tagged!.lines!)).toEqual(['maya|hello', 'tom|bye']);
+  await tagLine(saved.id, 'maya|hello', null);
+  const entry = await getEntry(saved.id);
+  expect(entry?.kind === 'script' && entry.lines).toEqual({ 'tom|bye': tagged!.lines!['tom|bye'] });
+  expect(await tagLine('missing', 'x', { emotion: 'joy' })).toBeUndefined();
+});
@@ -0,0 +1,195 @@
+// AI-CoDirector — local project workspace backed by IndexedDB.
+// Every script generation and emotion analysis is saved with its inputs and outputs,
+// so runs survive Reset/Clear and reloads. Components subscribe() to refresh on change.
+
+import { useEffect, useState } from "react";
+import type { EmotionResult, ScriptResult } from "./api";
+import type { TimelineSegment } from "./segments";
+import type { LineTag } from "./coverage";
+
+// -------------------- Types
+type EntryBase = { id: string; name: string; createdAt: number; updatedAt: number };
+
+export type ScriptVersion = { id: string; genre: string; preset?: string; output: ScriptResult; createdAt: number; label?: string };
+
+export type ScriptEntry = EntryBase & {
+  kind: 'script';
+  input: { genre: string; preset?: string; text?: string; pdfName?: string }; // preset: StylePreset id
+  output: ScriptResult; // latest version
+  versions?: ScriptVersion[]; // oldest first; absent on entries saved before versioning
+  lines?: Record<string, LineTag>; // intended emotion and take per dialogue block, by lineKey()
+};
+
+export type AnalysisEntry = EntryBase & {
+  kind: 'analysis';
+  input: { intendedEmotion: string; video: { name: string; size: number; type: string; duration?: number } };
+  output: EmotionResult;
+  segments?: TimelineSegment[]; // per-window results for clips split in the browser
+};
+
+export type ProjectEntry = ScriptEntry | AnalysisEntry;
+export type NewEntry = Omit<ScriptEntry, keyof EntryBase> & { name?: string } | Omit<AnalysisEntry, keyof EntryBase> & { name?: string };
+
+// -------------------- IndexedDB plumbing
+const DB_NAME = 'ai_codirector';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available in this browser'));
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+async function tx<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(STORE, mode);
+    const req = run(t.objectStore(STORE));
+    t.oncomplete = () => resolve(req.result);
+    t.onerror = () => reject(t.error);
+    t.onabort = () => reject(t.error);
+  });
+}
+
+// -------------------- Change notifications
+const listeners = new Set<() => void>();
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function notify() { listeners.forEach((l) => l()); }
+
+// -------------------- Public API
+export function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function listEntries(): Promise<ProjectEntry[]> {
+  const all = await tx<ProjectEntry[]>('readonly', (s) => s.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getEntry(id: string): Promise<ProjectEntry | undefined> {
+  return tx<ProjectEntry | undefined>('readonly', (s) => s.get(id));
+}
+
+export async function putEntry(entry: ProjectEntry): Promise<ProjectEntry> {
+  await tx('readwrite', (s) => s.put(entry));
+  notify();
+  return entry;
+}
+
+export function saveEntry(input: NewEntry): Promise<ProjectEntry> {
+  const now = Date.now();
+  const entry = { ...input, id: newId(), name: input.name || defaultName(input), createdAt: now, updatedAt: now } as ProjectEntry;
+  return putEntry(entry);
+}
+
+export async function renameEntry(id: string, name: string): Promise<ProjectEntry | undefined> {
+  const entry = await getEntry(id);
+  if (!entry || !name.trim()) return entry;
+  return putEntry({ ...entry, name: name.trim(), updatedAt: Date.now() });
+}
+
+export async function duplicateEntry(id: string): Promise<ProjectEntry | undefined> {
+  const entry = await getEntry(id);
+  if (!entry) return undefined;
+  const now = Date.now();
+  return putEntry({ ...entry, id: newId(), name: `${entry.name} (copy)`, createdAt: now, updatedAt: now });
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  await tx('readwrite', (s) => s.delete(id));
+  notify();
+}
+
+// -------------------- Script versions
+export function entryVersions(entry: ScriptEntry): ScriptVersion[] {
+  return entry.versions?.length ? entry.versions : [{ id: entry.id, genre: entry.input.genre, output: entry.output, createdAt: entry.createdAt }];
+}
+
+// Regenerations of the same source (pasted text or PDF) belong to one entry
+function sameSource(a: ScriptEntry['input'], b: ScriptEntry['input']) {
+  if (a.pdfName || b.pdfName) return a.pdfName === b.pdfName;
+  return (a.text || '').trim() === (b.text || '').trim();
+}
+
+export async function addVersion(id: string, version: Omit<ScriptVersion, 'id' | 'createdAt'>): Promise<ScriptEntry | undefined> {
+  const entry = await getEntry(id);
+  if (!entry || entry.kind !== 'script') return undefined;
+  const now = Date.now();
+  const next: ScriptVersion = { ...version, id: newId(), createdAt: now };
+  return putEntry({
+    ...entry,
+    input: { ...entry.input, genre: version.genre, preset: version.preset ?? entry.input.preset },
+    output: version.output,
+    versions: [...entryVersions(entry), next],
+    updatedAt: now,
+  }) as Promise<ScriptEntry>;
+}
+
+/** Save a generation, appending it as a new version when the source was generated before. */
+export async function saveGeneration(input: ScriptEntry['input'], output: ScriptResult): Promise<ScriptEntry> {
+  const existing = (await listEntries()).find((e): e is ScriptEntry => e.kind === 'script' && sameSource(e.input, input));
+  if (existing) return (await addVersion(existing.id, { genre: input.genre, preset: input.preset, output }))!;
+  const now = Date.now();
+  return saveEntry({ kind: 'script', input, output, versions: [{ id: newId(), genre: input.genre, preset: input.preset, output, createdAt: now }] }) as Promise<ScriptEntry>;
+}
+
+// -------------------- Line tags
+/** Set (or with null, clear) the tag for one dialogue block of a script. */
+export async function tagLine(id: string, key: string, tag: LineTag | null): Promise<ScriptEntry | undefined> {
+  const entry = await getEntry(id);
+  if (!entry || entry.kind !== 'script') return undefined;
+  const lines = { ...entry.lines };
+  if (tag) lines[key] = tag; else delete lines[key];
+  return putEntry({ ...entry, lines, updatedAt: Date.now() }) as Promise<ScriptEntry>;
+}
+
+// -------------------- Helpers
+function defaultName(input: NewEntry): string {
+  if (input.kind === 'analysis') return `${input.input.video.name} — ${input.input.intendedEmotion}`;
+  if (input.input.pdfName) return input.input.pdfName.replace(/\.pdf$/i, '');
+  const firstLine = (input.input.text || '').trim().split('\n')[0].slice(0, 48);
+  return firstLine ? `${firstLine} (${input.input.genre})` : `${input.input.genre} script`;
+}
+
+export function searchEntries(entries: ProjectEntry[], query: string): ProjectEntry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  return entries.filter((e) => {
+    const haystack = e.kind === 'script'
+      ? [e.name, e.input.genre, e.input.pdfName, e.input.text, e.output.structured_script, e.output.final_script]
+      : [e.name, e.input.intendedEmotion, e.input.video.name, e.output.predicted_emotion];
+    return haystack.some((s) => s?.toLowerCase().includes(q));
+  });
+}
+
+/** Live list of entries; re-reads on every store change. */
+export function useProjectEntries(): { entries: ProjectEntry[]; error: string } {
+  const [entries, setEntries] = useState<ProjectEntry[]>([]);
+  const [error, setError] = useState('');
+  useEffect(() => {
+    let alive = true;
+    const load = () => listEntries().then((list) => { if (alive) { setEntries(list); setError(''); } }, (e) => { if (alive) setError(e?.message || String(e)); });
+    load();
+    const unsubscribe = subscribe(load);
+    return () => { alive = false; unsubscribe(); };
+  }, []);
+  return { entries, error };
+}
@@ -0,0 +1,52 @@
+import { parseEmotionResult } from './api';
+import { classifyNote, confidencePct, cuesFor, emotionGap, parseRecommendations } from './recommendations';
+
+const FULL = `Your delivery leans toward anger rather than sadness. Try softening it.
+
+### Voice
+- Slow down and let the line trail off.
+
+**Face:**
+- Let the eyes drop before the line.
+
+- **Body:** drop your shoulders and keep your hands still.
+- Take a beat before the final word.`;
+
+test('groups markdown notes by heading, inline label and cue words', () => {
+  const rec = parseRecommendations({ key_summary: 'Too hot for a grief scene.', full_recommendation: FULL })!;
+  expect(rec.summary).toBe('Too hot for a grief scene.');
+  expect(rec.voice).toEqual(['Slow down and let the line trail off.']);
+  expect(rec.face).toEqual(['Let the eyes drop before the line.', 'Take a beat before the final word.']);
+  expect(rec.body).toEqual(['drop your shoulders and keep your hands still.']);
+  expect(rec.full).toBe(FULL);
+});
+
+test('normalizes plain text, placeholder summaries and already-parsed notes', () => {
+  const plain = parseRecommendations('Good energy overall. Lower your pitch on the last line. Relax your jaw.')!;
+  expect(plain.summary).toBe('Good energy overall.');
+  expect(plain.voice).toEqual(['Lower your pitch on the last line.']);
+  expect(plain.face).toEqual(['Relax your jaw.']);
+
+  const placeholder = parseRecommendations({ key_summary: 'No summary provided.', full_recommendation: '- Breathe between lines.' })!;
+  expect(placeholder.summary).toBe('');
+  expect(placeholder.voice).toEqual(['Breathe between lines.']);
+
+  expect(parseRecommendations(placeholder)).toEqual(placeholder);
+  expect(parseRecommendations({})).toBeNull();
+  expect(parseRecommendations(null)).toBeNull();
+});
+
+test('parses recommendations as part of the emotion response', () => {
+  const res = parseEmotionResult({ predicted_emotion: 'joy', confidence: 0.7, match: true, recommendations: { key_summary: 'Nice.', full_recommendation: '' } });
+  expect(res.recommendations).toMatchObject({ summary: 'Nice.', voice: [], face: [], body: [], general: [] });
+});
+
+test('measures the gap between intended and predicted emotion', () => {
+  const result = { predicted_emotion: 'Anger', confidence: 81.2, match: false, probabilities_breakdown: { anger: 60, sadness: 25, fear: 15 } };
+  expect(emotionGap(result, ' Sadness ')).toEqual({ intended: 'sadness', predicted: 'anger', match: false, intendedPct: 25, predictedPct: 60, intendedRank: 2 });
+  expect(emotionGap({ ...result, probabilities_breakdown: { anger: 0.6, sadness: 0.4 } }, 'sadness').intendedPct).toBe(40);
+  expect(confidencePct(0.5)).toBe(50);
+  expect(confidencePct(81.2)).toBe(81.2);
+  expect(classifyNote('Keep your eyes on the voice')).toBe('face');
+  expect(cuesFor('Joy')?.face).toMatch(/smile/);
+});
@@ -0,0 +1,146 @@
+// AI-CoDirector — coaching recommendations from the Emotion Detector.
+// The backend sends either markdown text or { key_summary, full_recommendation }; both are
+// normalized into a summary plus actionable notes grouped by voice, face and body.
+
+import type { EmotionResult } from "./api";
+import type { Emotion } from "./emotions";
+
+// -------------------- Types
+export type CoachingArea = 'voice' | 'face' | 'body';
+export type Recommendations = {
+  summary: string;
+  voice: string[];
+  face: string[];
+  body: string[];
+  /** Notes that don't name a voice, face or body cue */
+  general: string[];
+  /** Original recommendation text (markdown) */
+  full: string;
+};
+
+export const COACHING_AREAS: { area: CoachingArea; label: string }[] = [
+  { area: 'voice', label: 'Voice' },
+  { area: 'face', label: 'Face' },
+  { area: 'body', label: 'Body' },
+];
+
+// -------------------- Classification
+const AREA_PATTERNS: Record<CoachingArea, RegExp> = {
+  voice: /\b(voice|vocal\w*|tone|pitch|pac(e|ing)|tempo|volume|breath\w*|paus\w*|intonation|delivery|speak\w*|speech|inflect\w*|articulat\w*|loud\w*|whisper\w*)\b/i,
+  face: /\b(face|facial|eyes?|eyebrows?|brows?|gaze|smil\w*|mouth|lips?|jaw|forehead|frown\w*|expressions?)\b/i,
+  body: /\b(body|posture|shoulders?|hands?|arms?|gestur\w*|stance|movement|lean\w*|chest|torso|feet|physical\w*)\b/i,
+};
+
+/** The area whose cue word appears first in the text, if any. */
+export function classifyNote(text: string): CoachingArea | null {
+  let best: CoachingArea | null = null; let at = Infinity;
+  for (const { area } of COACHING_AREAS) {
+    const m = AREA_PATTERNS[area].exec(text);
+    if (m && m.index < at) { best = area; at = m.index; }
+  }
+  return best;
+}
+
+const stripMarkdown = (s: string) => s.replace(/\*\*|__|`/g, '').replace(/^[*_]|[*_]$/g, '').trim();
+const NO_SUMMARY = /^no summary provided\.?$/i;
+
+// -------------------- Parsing
+function notesFromMarkdown(md: string): Omit<Recommendations, 'summary' | 'full'> & { lead: string } {
+  const out = { voice: [] as string[], face: [] as string[], body: [] as string[], general: [] as string[], lead: '' };
+  let section: CoachingArea | null = null;
+  const prose: string[] = [];
+  for (const raw of md.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    // "### Voice", "**Body language:**" or "Facial expression:" start a section
+    const heading = /^#{1,6}\s+(.*)$/.exec(line)?.[1] ?? /^\*\*([^*]+?):?\*\*:?$/.exec(line)?.[1] ?? (/^[^-*+\d].{0,40}:$/.test(line) ? line.slice(0, -1) : null);
+    if (heading !== null) { section = classifyNote(heading); continue; }
+    const bullet = /^(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line)?.[1];
+    if (bullet === undefined) { prose.push(line); continue; }
+    // "- **Voice:** lower the pitch" labels the note itself
+    const labelled = /^\*\*([^*]+?):?\*\*:?\s*(.*)$/.exec(bullet);
+    const text = stripMarkdown(labelled && labelled[2] ? labelled[2] : bullet);
+    const area = (labelled && classifyNote(labelled[1])) || section || classifyNote(text);
+    if (text) out[area ?? 'general'].push(text);
+  }
+  const sentences = (prose.join(' ').match(/[^.!?]+[.!?]*/g) ?? []).map(stripMarkdown).filter(Boolean);
+  out.lead = sentences[0] ?? '';
+  // Plain prose without bullets: pull out the sentences that name a cue
+  if (!out.voice.length && !out.face.length && !out.body.length && !out.general.length) {
+    for (const s of sentences.slice(1)) { const area = classifyNote(s); if (area) out[area].push(s); }
+  }
+  return out;
+}
+
+const strings = (v: unknown): string[] | null =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string' && !!x.trim()) : typeof v === 'string' && v.trim() ? [v.trim()] : null;
+
+/** Normalize whatever the backend (or an older saved analysis) holds; null when there is nothing to show. */
+export function parseRecommendations(raw: unknown): Recommendations | null {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    const full = Array.isArray(raw) ? raw.filter((x) => typeof x === 'string').map((x) => `- ${x}`).join('\n') : String(raw);
+    return full.trim() ? parseRecommendations({ full_recommendation: full }) : null;
+  }
+  const r = raw as Record<string, unknown>;
+  const full = [r.full, r.full_recommendation, r.recommendation, r.text].find((v): v is string => typeof v === 'string') ?? '';
+  const summary = [r.summary, r.key_summary].find((v): v is string => typeof v === 'string' && !!v.trim() && !NO_SUMMARY.test(v.trim()));
+  const given = { voice: strings(r.voice), face: strings(r.face), body: strings(r.body), general: strings(r.general ?? r.notes) };
+  const parsed = Object.values(given).some(Boolean) ? null : notesFromMarkdown(full);
+  const rec: Recommendations = {
+    summary: summary?.trim() ?? parsed?.lead ?? '',
+    voice: given.voice ?? parsed?.voice ?? [],
+    face: given.face ?? parsed?.face ?? [],
+    body: given.body ?? parsed?.body ?? [],
+    general: given.general ?? parsed?.general ?? [],
+    full,
+  };
+  return rec.summary || rec.full || rec.voice.length || rec.face.length || rec.body.length || rec.general.length ? rec : null;
+}
+
+// -------------------- Gap
+/** Confidence as a 0–100 percentage; the backend has sent both fractions and percentages. */
+export function confidencePct(confidence: number): number {
+  const pct = confidence <= 1 ? confidence * 100 : confidence;
+  return Math.max(0, Math.min(100, pct));
+}
+
+export type EmotionGap = {
+  intended: string;
+  predicted: string;
+  match: boolean;
+  /** Probability (0–100) the model gave each emotion, when a breakdown is available */
+  intendedPct?: number;
+  predictedPct?: number;
+  /** Position of the intended emotion in the breakdown, 1 = top */
+  intendedRank?: number;
+};
+
+export function emotionGap(result: EmotionResult, intended: string): EmotionGap {
+  const gap: EmotionGap = { intended: intended.trim().toLowerCase(), predicted: result.predicted_emotion.toLowerCase(), match: result.match };
+  const entries = Object.entries(result.probabilities_breakdown ?? {}).map(([k, v]) => [k.toLowerCase(), v] as const);
+  if (!entries.length) return gap;
+  const scale = entries.reduce((sum, [, v]) => sum + v, 0) > 1.5 ? 1 : 100;
+  const sorted = entries.slice().sort(([, a], [, b]) => b - a);
+  const find = (e: string) => sorted.findIndex(([k]) => k === e);
+  const i = find(gap.intended); const p = find(gap.predicted);
+  if (i >= 0) { gap.intendedPct = sorted[i][1] * scale; gap.intendedRank = i + 1; }
+  if (p >= 0) gap.predictedPct = sorted[p][1] * scale;
+  return gap;
+}
+
+// -------------------- Coaching cues
+/** What each emotion tends to look and sound like on camera, shown when a take misses its target. */
+export const COACHING_CUES: Record<Emotion, Record<CoachingArea, string>> = {
+  anger: { voice: 'Lower, clipped delivery with hard consonants; let volume build.', face: 'Brows drawn down and together, a fixed stare, tight lips or bared teeth.', body: 'Squared shoulders, forward lean, sharp and contained gestures.' },
+  disgust: { voice: 'Breathy, drawn-out syllables; a short exhale before the line.', face: 'Wrinkled nose and raised upper lip; eyes narrow.', body: 'Pull the head and torso back, turn slightly away.' },
+  fear: { voice: 'Higher pitch, quick shallow breaths, words that rush or catch.', face: 'Raised brows pulled together, wide eyes, lips stretched back.', body: 'Shoulders up, weight on the back foot, hands close to the body.' },
+  joy: { voice: 'Brighter tone and wider pitch range; let the pace lift.', face: 'A full smile that reaches the eyes — cheeks raised, crow’s feet.', body: 'Open chest, loose shoulders, expansive gestures.' },
+  neutral: { voice: 'Even pitch and steady pace; no push on the ends of lines.', face: 'Relaxed brow and mouth, soft focus.', body: 'Still, balanced stance; minimal gesture.' },
+  sadness: { voice: 'Slower, quieter, falling pitch; leave room for pauses.', face: 'Inner brows raised, downturned mouth corners, lowered gaze.', body: 'Dropped shoulders, head down, heavy and slow movement.' },
+  surprise: { voice: 'A sharp intake of breath, then a sudden rise in pitch.', face: 'Brows lifted high, eyes wide, jaw dropped open.', body: 'A quick recoil or freeze; hands may rise.' },
+};
+
+export function cuesFor(emotion: string): Record<CoachingArea, string> | null {
+  return COACHING_CUES[emotion.trim().toLowerCase() as Emotion] ?? null;
+}
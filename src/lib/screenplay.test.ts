@@ -0,0 +1,68 @@
+import { listScenes, parseScreenplay, toFountain } from './screenplay';
+
+const SAMPLE = `Title: The Last Take
+Credit: Written by
+Author: AI-CoDirector
+
+FADE IN:
+
+INT. SOUND STAGE - NIGHT
+
+Lights buzz overhead. MAYA (30s) paces.
+She checks her watch.
+
+MAYA
+(under her breath)
+One more take.
+Just one.
+
+DIRECTOR (O.S.)
+Places!
+
+CUT TO:
+
+EXT. STUDIO LOT - DAWN #12A#
+
+> THE END <
+`;
+
+test('parses title page and screenplay elements', () => {
+  const doc = parseScreenplay(SAMPLE);
+  expect(doc.titlePage).toEqual({ title: 'The Last Take', credit: 'Written by', author: 'AI-CoDirector' });
+  expect(doc.elements.map((el) => el.type)).toEqual([
+    'action', 'scene_heading', 'action', 'character', 'parenthetical', 'dialogue',
+    'character', 'dialogue', 'transition', 'scene_heading', 'centered',
+  ]);
+  expect(doc.elements[2].text).toBe('Lights buzz overhead. MAYA (30s) paces.\nShe checks her watch.');
+  expect(doc.elements[5].text).toBe('One more take.\nJust one.');
+});
+
+test('numbers scenes, keeping explicit Fountain scene numbers', () => {
+  const scenes = listScenes(parseScreenplay(SAMPLE));
+  expect(scenes.map((s) => [s.number, s.heading])).toEqual([
+    ['1', 'INT. SOUND STAGE - NIGHT'],
+    ['12A', 'EXT. STUDIO LOT - DAWN'],
+  ]);
+});
+
+test('handles forced elements, dual dialogue and markdown-wrapped model output', () => {
+  const doc = parseScreenplay(`**INT. CAR - DAY**\n\n@McCLANE\nYippee.\n\nHOLLY ^\nJohn!\n\n!SILENCE\n\n.FLASHBACK`);
+  expect(doc.elements.map((el) => [el.type, el.text])).toEqual([
+    ['scene_heading', 'INT. CAR - DAY'],
+    ['character', 'McCLANE'],
+    ['dialogue', 'Yippee.'],
+    ['character', 'HOLLY'],
+    ['dialogue', 'John!'],
+    ['action', 'SILENCE'],
+    ['scene_heading', 'FLASHBACK'],
+  ]);
+  expect(doc.elements[3].dual).toBe(true);
+});
+
+test('round-trips through Fountain', () => {
+  const doc = parseScreenplay(SAMPLE);
+  const again = parseScreenplay(toFountain(doc));
+  expect(again.titlePage).toEqual(doc.titlePage);
+  expect(again.elements.map(({ type, text, sceneNumber }) => ({ type, text, sceneNumber })))
+    .toEqual(doc.elements.map(({ type, text, sceneNumber }) => ({ type, text, sceneNumber })));
+});
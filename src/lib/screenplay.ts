@@ -0,0 +1,222 @@
+// AI-CoDirector — screenplay model, Fountain parser and serializer.
+// - Parses Fountain (https://fountain.io/syntax) and the plain-text screenplays the model returns
+// - Produces a flat element list with stable ids and scene numbers for rendering / export
+// - Round-trips back to Fountain with forced markers only where the plain rules would misread
+
+// -------------------- Types
+export type ElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition'
+  | 'centered'
+  | 'page_break';
+
+export type ScriptElement = {
+  id: string;
+  type: ElementType;
+  text: string;
+  sceneNumber?: string; // scene_heading only
+  dual?: boolean; // character only: second speaker of a dual-dialogue pair
+};
+
+export type Screenplay = {
+  titlePage: Record<string, string>;
+  elements: ScriptElement[];
+};
+
+export type SceneRef = { id: string; number: string; heading: string; index: number };
+
+// -------------------- Layout (inches, US Letter, relative to the 1.5" left margin)
+// 54 lines at 6 lines per inch fill the 9" between the top and bottom margins
+export const PAGE = { width: 8.5, height: 11, marginLeft: 1.5, marginRight: 1, marginTop: 1, marginBottom: 1, linesPerPage: 54 };
+
+export const LAYOUT: Record<ElementType, { indent: number; width: number; align?: 'left' | 'right' | 'center' }> = {
+  scene_heading: { indent: 0, width: 6 },
+  action: { indent: 0, width: 6 },
+  character: { indent: 2.2, width: 3.8 },
+  parenthetical: { indent: 1.6, width: 2 },
+  dialogue: { indent: 1, width: 3.5 },
+  transition: { indent: 0, width: 6, align: 'right' },
+  centered: { indent: 0, width: 6, align: 'center' },
+  page_break: { indent: 0, width: 6 },
+};
+
+// -------------------- Parser
+const SCENE_RE = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+const SCENE_NUMBER_RE = /\s*#([\w.-]+)#\s*$/;
+const TRANSITION_RE = /^[A-Z\s.]+TO:$/;
+const TITLE_KEY_RE = /^(title|credit|authors?|source|genre|draft date|date|contact|copyright|notes|revision):\s*(.*)$/i;
+
+const isUpper = (s: string) => /[A-Z]/.test(s) && s === s.toUpperCase();
+// Strips markdown bold/italic wrapping the model sometimes puts around headings and cues
+const unwrap = (s: string) => s.replace(/^\*{1,3}(.+?)\*{1,3}$/, '$1').trim();
+
+function stripNotes(src: string) {
+  return src.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\[\[[\s\S]*?\]\]/g, '');
+}
+
+function parseTitlePage(lines: string[]): { titlePage: Record<string, string>; rest: string[] } {
+  const titlePage: Record<string, string> = {};
+  if (!lines.length || !TITLE_KEY_RE.test(lines[0])) return { titlePage, rest: lines };
+  let i = 0; let key = '';
+  for (; i < lines.length && lines[i].trim() !== ''; i++) {
+    const m = lines[i].match(TITLE_KEY_RE);
+    if (m && !/^\s/.test(lines[i])) { key = m[1].trim().toLowerCase(); titlePage[key] = m[2].trim(); }
+    else if (key) titlePage[key] = [titlePage[key], lines[i].trim()].filter(Boolean).join('\n');
+  }
+  return { titlePage, rest: lines.slice(i + 1) };
+}
+
+export function parseScreenplay(src: string): Screenplay {
+  const normalized = stripNotes(src.replace(/\r\n?/g, '\n'));
+  const { titlePage, rest } = parseTitlePage(normalized.split('\n'));
+  const lines = rest.map((l) => l.replace(/\s+$/, ''));
+  const elements: ScriptElement[] = [];
+  let sceneCount = 0;
+
+  const push = (type: ElementType, text: string, extra: Partial<ScriptElement> = {}) => {
+    elements.push({ id: `el-${elements.length}`, type, text, ...extra });
+  };
+
+  let inDialogue = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = unwrap(lines[i].trim());
+    const prevBlank = i === 0 || lines[i - 1].trim() === '';
+    const nextBlank = i === lines.length - 1 || lines[i + 1].trim() === '';
+
+    if (line === '') { inDialogue = false; continue; }
+    // Sections (#) and synopses (=) are outline-only in Fountain
+    if (/^#+\s/.test(line) || /^=(?!==)/.test(line)) continue;
+
+    if (/^={3,}$/.test(line)) { push('page_break', ''); inDialogue = false; continue; }
+
+    if (inDialogue) {
+      const last = elements[elements.length - 1];
+      if (/^\(.*\)$/.test(line)) push('parenthetical', line);
+      else if (last.type === 'dialogue') last.text += `\n${line}`;
+      else push('dialogue', line);
+      continue;
+    }
+
+    const last = elements[elements.length - 1];
+    const action = (text: string) => {
+      if (!prevBlank && last?.type === 'action') last.text += `\n${text}`;
+      else push('action', text);
+    };
+
+    if (line.startsWith('!')) { action(line.slice(1)); continue; }
+
+    if (/^>.*<$/.test(line)) { push('centered', line.slice(1, -1).trim()); continue; }
+
+    if ((line.startsWith('.') && !line.startsWith('..')) || (prevBlank && SCENE_RE.test(line))) {
+      let heading = line.startsWith('.') ? line.slice(1).trim() : line;
+      const num = heading.match(SCENE_NUMBER_RE);
+      heading = heading.replace(SCENE_NUMBER_RE, '');
+      sceneCount++;
+      push('scene_heading', heading.toUpperCase(), { sceneNumber: num ? num[1] : String(sceneCount) });
+      continue;
+    }
+
+    if (line.startsWith('>')) { push('transition', line.slice(1).trim().toUpperCase()); continue; }
+    if (prevBlank && nextBlank && TRANSITION_RE.test(line)) { push('transition', line); continue; }
+
+    const forcedCharacter = line.startsWith('@');
+    const bareCue = line.replace(/\s*\^$/, '').replace(/\(.*?\)/g, '').trim();
+    if (forcedCharacter || (prevBlank && !nextBlank && isUpper(bareCue) && !/[.!?:]$/.test(bareCue))) {
+      let cue = forcedCharacter ? line.slice(1).trim() : line;
+      const dual = cue.endsWith('^');
+      if (dual) cue = cue.slice(0, -1).trim();
+      push('character', cue, dual ? { dual: true } : {});
+      inDialogue = true;
+      continue;
+    }
+
+    action(line);
+  }
+
+  return { titlePage, elements };
+}
+
+// -------------------- Serializer
+const TITLE_ORDER = ['title', 'credit', 'author', 'source', 'genre', 'draft date', 'contact'];
+
+export function toFountain(doc: Screenplay): string {
+  const out: string[] = [];
+  const keys = Object.keys(doc.titlePage).sort((a, b) => rank(a) - rank(b));
+  if (keys.length) {
+    for (const key of keys) {
+      const label = key.replace(/\b\w/g, (c) => c.toUpperCase());
+      const [first, ...more] = doc.titlePage[key].split('\n');
+      out.push(`${label}: ${first}`, ...more.map((l) => `    ${l}`));
+    }
+    out.push('');
+  }
+
+  for (const el of doc.elements) {
+    switch (el.type) {
+      case 'scene_heading': {
+        const forced = SCENE_RE.test(el.text) ? '' : '.';
+        out.push('', `${forced}${el.text}${el.sceneNumber ? ` #${el.sceneNumber}#` : ''}`, '');
+        break;
+      }
+      case 'action':
+        out.push(...el.text.split('\n').map((l) => (needsActionForce(l) ? `!${l}` : l)), '');
+        break;
+      case 'character': {
+        const forced = isUpper(el.text) ? '' : '@';
+        out.push(`${forced}${el.text}${el.dual ? ' ^' : ''}`);
+        break;
+      }
+      case 'parenthetical':
+        out.push(el.text);
+        break;
+      case 'dialogue':
+        out.push(...el.text.split('\n'));
+        if (!isDialogueContinued(doc.elements, el)) out.push('');
+        break;
+      case 'transition':
+        out.push('', TRANSITION_RE.test(el.text) ? el.text : `> ${el.text}`, '');
+        break;
+      case 'centered':
+        out.push(`> ${el.text} <`, '');
+        break;
+      case 'page_break':
+        out.push('===', '');
+        break;
+    }
+  }
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+function rank(key: string) {
+  const i = TITLE_ORDER.indexOf(key);
+  return i === -1 ? TITLE_ORDER.length : i;
+}
+
+// A plain action line that would re-parse as something else needs the "!" marker
+function needsActionForce(line: string) {
+  const t = line.trim();
+  return SCENE_RE.test(t) || (isUpper(t) && !/[.!?]$/.test(t)) || /^[.>@#=~]/.test(t);
+}
+
+function isDialogueContinued(elements: ScriptElement[], el: ScriptElement) {
+  const next = elements[elements.indexOf(el) + 1];
+  return next?.type === 'parenthetical';
+}
+
+// -------------------- Helpers
+export function listScenes(doc: Screenplay): SceneRef[] {
+  const scenes: SceneRef[] = [];
+  doc.elements.forEach((el, index) => {
+    if (el.type === 'scene_heading') scenes.push({ id: el.id, number: el.sceneNumber || String(scenes.length + 1), heading: el.text, index });
+  });
+  return scenes;
+}
+
+/** Plain screenplay text of a generation result, whichever field the backend filled in. */
+export function scriptText(out: { structured_script?: string; final_script?: string } | null | undefined): string {
+  return out ? out.structured_script || out.final_script || '' : '';
+}
@@ -0,0 +1,101 @@
+import { analyzeWindows, planWindows, recordWindows, summarizeSegments, TimeWindow, TimelineSegment } from './segments';
+
+const result = (predicted_emotion: string, confidence: number, match: boolean) => ({ predicted_emotion, confidence, match });
+
+test('plans fixed windows and folds a short tail into the last one', () => {
+  expect(planWindows(6)).toEqual([{ start: 0, end: 6 }]);
+  expect(planWindows(12)).toEqual([{ start: 0, end: 5 }, { start: 5, end: 12 }]);
+  expect(planWindows(14)).toEqual([{ start: 0, end: 5 }, { start: 5, end: 10 }, { start: 10, end: 14 }]);
+  expect(planWindows(NaN)).toEqual([]);
+});
+
+test('analyzes each recorded window and keeps going past failures', async () => {
+  const windows = planWindows(15);
+  async function* record(_file: Blob, ws: TimeWindow[]) {
+    for (const w of ws) yield { window: w, clip: new File(['x'], `w${w.start}.webm`) };
+  }
+  const analyze = jest.fn()
+    .mockResolvedValueOnce(result('joy', 0.8, true))
+    .mockRejectedValueOnce(new Error('Server error (500)'))
+    .mockResolvedValueOnce(result('sadness', 0.6, false));
+  const updates: TimelineSegment[][] = [];
+  const segs = await analyzeWindows(new Blob(), windows, analyze, { record, onUpdate: (s) => updates.push(s) });
+  expect(segs.map((s) => s.status)).toEqual(['done', 'error', 'done']);
+  expect(segs[1].error).toBe('Server error (500)');
+  expect(updates[0].every((s) => s.status === 'pending')).toBe(true);
+  expect(updates).toHaveLength(4);
+});
+
+describe('recordWindows', () => {
+  const { createObjectURL, revokeObjectURL } = URL;
+  beforeEach(() => { URL.createObjectURL = jest.fn(() => 'blob:clip'); URL.revokeObjectURL = jest.fn(); });
+  afterEach(() => { URL.createObjectURL = createObjectURL; URL.revokeObjectURL = revokeObjectURL; jest.restoreAllMocks(); });
+
+  // jsdom has no media playback; grab the offscreen <video> the generator creates
+  const start = (signal?: AbortSignal) => {
+    const create = jest.spyOn(document, 'createElement');
+    const next = recordWindows(new Blob(['x']), [{ start: 0, end: 5 }], signal).next();
+    const video = create.mock.results[0].value as HTMLVideoElement;
+    video.pause = jest.fn(); video.load = jest.fn();
+    return { next, video };
+  };
+
+  test('fails instead of hanging on a clip the browser cannot decode', async () => {
+    const { next, video } = start();
+    video.dispatchEvent(new Event('error'));
+    await expect(next).rejects.toThrow('This clip could not be decoded in the browser');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:clip');
+  });
+
+  test('stops waiting for the clip on cancel', async () => {
+    const ctrl = new AbortController();
+    const { next } = start(ctrl.signal);
+    ctrl.abort();
+    await expect(next).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  test('stops the recorder and fails when playback stalls mid-window', async () => {
+    const stopped = jest.fn();
+    class FakeRecorder extends EventTarget {
+      state = 'inactive';
+      mimeType = '';
+      ondataavailable: ((e: { data: Blob }) => void) | null = null;
+      start() { this.state = 'recording'; }
+      stop() { this.state = 'inactive'; stopped(); this.dispatchEvent(new Event('stop')); }
+    }
+    const { MediaRecorder } = window;
+    window.MediaRecorder = FakeRecorder as unknown as typeof window.MediaRecorder;
+    const tick = () => new Promise((r) => setTimeout(r, 0));
+    try {
+      const { next, video } = start();
+      const capturable = video as HTMLVideoElement & { captureStream: () => MediaStream };
+      capturable.captureStream = () => ({ getTracks: () => [] }) as unknown as MediaStream;
+      video.play = jest.fn().mockResolvedValue(undefined);
+      video.dispatchEvent(new Event('loadedmetadata')); await tick();
+      video.dispatchEvent(new Event('seeked')); await tick();
+      video.dispatchEvent(new Event('stalled'));
+      await expect(next).rejects.toThrow('Playback stalled at 0s in this clip');
+      expect(stopped).toHaveBeenCalled();
+    } finally {
+      window.MediaRecorder = MediaRecorder;
+    }
+  });
+});
+
+test('summarizes by time held, with the share of matching windows', () => {
+  const segs: TimelineSegment[] = [
+    { start: 0, end: 5, status: 'done', result: result('joy', 0.9, true) },
+    { start: 5, end: 10, status: 'done', result: result('sadness', 0.5, false) },
+    { start: 10, end: 17, status: 'done', result: result('joy', 0.7, true) },
+    { start: 17, end: 20, status: 'error', error: 'x' },
+  ];
+  const summary = summarizeSegments(segs)!;
+  expect(summary.result.predicted_emotion).toBe('joy');
+  expect(summary.result.confidence).toBeCloseTo(0.8);
+  expect(summary.matchRate).toBeCloseTo(2 / 3);
+  expect(summary.result.match).toBe(true);
+  expect(summarizeSegments([{ start: 0, end: 1, status: 'pending' }])).toBeNull();
+  // A window answered on the 0–100 scale averages the same
+  segs[2] = { ...segs[2], result: result('joy', 70, true) };
+  expect(summarizeSegments(segs)!.result.confidence).toBeCloseTo(0.8);
+});
@@ -0,0 +1,179 @@
+// AI-CoDirector — split a clip into time windows in the browser for a per-window emotion timeline.
+// Each window is re-recorded from an offscreen <video> via captureStream() + MediaRecorder,
+// so recording runs in real time (a 40s clip takes ~40s to split).
+
+import type { EmotionResult } from "./api";
+import { confidencePct } from "./recommendations";
+
+// -------------------- Types
+export type TimeWindow = { start: number; end: number };
+export type TimelineSegment = TimeWindow & { status: 'pending' | 'done' | 'error'; result?: EmotionResult; error?: string };
+
+export const WINDOW_SECONDS = 5;
+
+// -------------------- Planning
+/** Fixed-size windows; a short tail (< half a window) is folded into the previous one. */
+export function planWindows(duration: number, windowSec = WINDOW_SECONDS): TimeWindow[] {
+  if (!Number.isFinite(duration) || duration <= 0) return [];
+  if (duration <= windowSec * 1.5) return [{ start: 0, end: duration }];
+  const windows: TimeWindow[] = [];
+  for (let start = 0; start < duration; start += windowSec) windows.push({ start, end: Math.min(start + windowSec, duration) });
+  const last = windows[windows.length - 1];
+  if (windows.length > 1 && last.end - last.start < windowSec / 2) {
+    windows.pop();
+    windows[windows.length - 1].end = duration;
+  }
+  return windows;
+}
+
+// -------------------- Recording
+type CapturableVideo = HTMLVideoElement & { captureStream?: () => MediaStream; mozCaptureStream?: () => MediaStream };
+
+export function canSplitInBrowser(): boolean {
+  if (typeof MediaRecorder === 'undefined' || typeof document === 'undefined') return false;
+  const v = document.createElement('video') as CapturableVideo;
+  return typeof v.captureStream === 'function' || typeof v.mozCaptureStream === 'function';
+}
+
+function pickMimeType() {
+  const candidates = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+  return candidates.find((t) => MediaRecorder.isTypeSupported?.(t)) || '';
+}
+
+function abortError() { return new DOMException('Splitting cancelled', 'AbortError'); }
+
+/** Resolves on `event`; rejects on the target's 'error' event or on cancel, so a broken clip can't hang the split. */
+function once(target: EventTarget, event: string, failure: string, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent); target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(failure)); };
+    const onAbort = () => { cleanup(); reject(abortError()); };
+    target.addEventListener(event, onEvent); target.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Resolves once playback reaches the end of the window (or cancel); rejects if the video errors
+ * or stalls, the recorder fails, or playback takes far longer than the window itself.
+ */
+function playThrough(video: HTMLVideoElement, recorder: MediaRecorder, span: TimeWindow, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const fail = (message: string) => () => { cleanup(); reject(new Error(message)); };
+    const onVideoError = fail(`Playback failed at ${Math.round(video.currentTime)}s in this clip`);
+    const onStalled = fail(`Playback stalled at ${Math.round(video.currentTime)}s in this clip`);
+    const onRecorderError = fail('Recording the window failed');
+    const timer = setInterval(() => {
+      if (video.currentTime >= span.end || video.ended || signal?.aborted) { cleanup(); resolve(); }
+    }, 40);
+    const limit = setTimeout(fail(`Recording the window at ${span.start}s timed out`), ((span.end - span.start) * 2 + 10) * 1000);
+    const cleanup = () => {
+      clearInterval(timer); clearTimeout(limit);
+      video.removeEventListener('error', onVideoError); video.removeEventListener('stalled', onStalled);
+      recorder.removeEventListener('error', onRecorderError);
+    };
+    video.addEventListener('error', onVideoError); video.addEventListener('stalled', onStalled);
+    recorder.addEventListener('error', onRecorderError);
+  });
+}
+
+/** Yields one recorded File per window, in order. */
+export async function* recordWindows(file: Blob, windows: TimeWindow[], signal?: AbortSignal): AsyncGenerator<{ window: TimeWindow; clip: File }> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video') as CapturableVideo;
+  // Muting the element keeps autoplay allowed; captured audio tracks are unaffected
+  video.muted = true; video.playsInline = true; video.preload = 'auto'; video.src = url;
+  let stream: MediaStream | undefined;
+  try {
+    await once(video, 'loadedmetadata', 'This clip could not be decoded in the browser', signal);
+    stream = video.captureStream ? video.captureStream() : video.mozCaptureStream!();
+    const mimeType = pickMimeType();
+    const ext = mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+    for (const [i, span] of windows.entries()) {
+      if (signal?.aborted) throw abortError();
+      video.currentTime = span.start;
+      await once(video, 'seeked', `Could not seek to ${span.start}s in this clip`, signal);
+
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+      const stopped = once(recorder, 'stop', 'Recording the window failed');
+      recorder.start();
+      try {
+        await video.play();
+        await playThrough(video, recorder, span, signal);
+      } catch (e) {
+        video.pause();
+        if (recorder.state !== 'inactive') recorder.stop();
+        await stopped.catch(() => {});
+        throw e;
+      }
+      video.pause(); recorder.stop();
+      await stopped;
+      if (signal?.aborted) throw abortError();
+      yield { window: span, clip: new File(chunks, `window-${i + 1}.${ext}`, { type: recorder.mimeType || mimeType || 'video/webm' }) };
+    }
+  } finally {
+    stream?.getTracks().forEach((t) => t.stop());
+    video.pause(); video.removeAttribute('src'); video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// -------------------- Analysis
+type Recorder = (file: Blob, windows: TimeWindow[], signal?: AbortSignal) => AsyncIterable<{ window: TimeWindow; clip: File }>;
+
+/**
+ * Record and analyze each window in turn. A failed window is marked as an error and the
+ * rest carry on; cancellation stops everything. onUpdate receives a fresh array per change.
+ */
+export async function analyzeWindows(
+  file: Blob,
+  windows: TimeWindow[],
+  analyze: (clip: File) => Promise<EmotionResult>,
+  { signal, onUpdate, record = recordWindows }:{ signal?: AbortSignal; onUpdate?: (segments: TimelineSegment[]) => void; record?: Recorder } = {},
+): Promise<TimelineSegment[]> {
+  let segments: TimelineSegment[] = windows.map((w) => ({ ...w, status: 'pending' }));
+  onUpdate?.(segments);
+  for await (const { window: span, clip } of record(file, windows, signal)) {
+    const i = windows.indexOf(span);
+    let patch: Partial<TimelineSegment>;
+    try { patch = { status: 'done', result: await analyze(clip) }; }
+    catch (e) {
+      if (signal?.aborted) throw e;
+      patch = { status: 'error', error: (e as Error)?.message || String(e) };
+    }
+    segments = segments.map((s, j) => (j === i ? { ...s, ...patch } : s));
+    onUpdate?.(segments);
+  }
+  return segments;
+}
+
+// -------------------- Summary
+/** Overall result for the clip: the emotion held longest, its mean confidence, and the share of windows that match. */
+export function summarizeSegments(segments: TimelineSegment[]): { result: EmotionResult; matchRate: number } | null {
+  const done = segments.filter((s): s is TimelineSegment & { result: EmotionResult } => s.status === 'done' && !!s.result);
+  if (!done.length) return null;
+  const time: Record<string, number> = {};
+  for (const s of done) time[s.result.predicted_emotion] = (time[s.result.predicted_emotion] || 0) + (s.end - s.start);
+  const dominant = Object.entries(time).sort(([, a], [, b]) => b - a)[0][0];
+  const ofDominant = done.filter((s) => s.result.predicted_emotion === dominant);
+  const matchRate = done.filter((s) => s.result.match).length / done.length;
+  const worst = done.find((s) => !s.result.match) ?? done[0];
+  return {
+    matchRate,
+    result: {
+      predicted_emotion: dominant,
+      // Windows may come back in either scale; the mean is a 0–1 fraction
+      confidence: ofDominant.reduce((sum, s) => sum + confidencePct(s.result.confidence), 0) / ofDominant.length / 100,
+      match: matchRate >= 0.5,
+      recommendations: worst.result.recommendations,
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { deletePreset, findPreset, importPresets, listPresets, loadPresets, parsePresets, presetsToJson, savePreset, styleFields, StylePreset } from './stylePresets';
+
+const noir: StylePreset = { id: '', name: 'House noir', genre: 'Thriller', tone: 'bleak', pacing: 'slow-burn', targetLength: '5 pages', era: '1940s', referenceWriters: ['Raymond Chandler', ' '], notes: '' };
+
+beforeEach(() => window.localStorage.clear());
+
+test('saves, updates and deletes user presets; built-ins are copied', () => {
+  const saved = savePreset(noir);
+  expect(saved.id).toMatch(/^preset-/);
+  expect(saved).not.toHaveProperty('notes');
+  savePreset({ ...saved, tone: 'wry' });
+  expect(loadPresets()).toEqual([expect.objectContaining({ id: saved.id, tone: 'wry' })]);
+
+  const drama = listPresets().find((p) => p.name === 'Drama')!;
+  const copy = savePreset({ ...drama, name: 'Drama (ours)' });
+  expect(copy.builtIn).toBeUndefined();
+  expect(copy.id).not.toBe(drama.id);
+  expect(listPresets().map((p) => p.name)).toEqual(['Drama', 'Thriller', 'Comedy', 'Action', 'Romance', 'Drama (ours)', 'House noir']);
+
+  deletePreset(saved.id);
+  expect(loadPresets().map((p) => p.name)).toEqual(['Drama (ours)']);
+});
+
+test('sends only the style fields that are filled in', () => {
+  expect(styleFields(noir)).toEqual({ tone: 'bleak', pacing: 'slow-burn', target_length: '5 pages', era: '1940s', reference_writers: ['Raymond Chandler'] });
+  expect(styleFields({ id: 'x', name: 'Plain', genre: 'Drama', tone: '  ' })).toBeUndefined();
+});
+
+test('a preset that cannot be stored is reported, not returned as saved', () => {
+  const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new DOMException('full', 'QuotaExceededError'); });
+  expect(() => savePreset({ id: '', name: 'Lost', genre: 'Drama' })).toThrow('Browser storage is full or blocked');
+  expect(() => importPresets(JSON.stringify([{ name: 'Lost', genre: 'Drama' }]))).toThrow('Browser storage is full or blocked');
+  setItem.mockRestore();
+  expect(loadPresets()).toEqual([]);
+});
+
+test('exports and re-imports presets, replacing ones with the same name', () => {
+  const saved = savePreset(noir);
+  const json = presetsToJson(listPresets());
+  expect(JSON.parse(json)).toEqual({ version: 1, presets: [expect.objectContaining({ name: 'House noir', genre: 'Thriller' })] });
+
+  savePreset({ ...saved, tone: 'changed' });
+  const added = importPresets(json);
+  expect(added).toHaveLength(1);
+  expect(loadPresets()).toEqual([expect.objectContaining({ name: 'House noir', tone: 'bleak' })]);
+});
+
+test('rejects malformed preset files with a readable message', () => {
+  expect(() => importPresets('{nope')).toThrow('This file is not valid JSON');
+  expect(() => parsePresets({ presets: [{ name: 'A' }] })).toThrow('Preset 1 ("A") has no genre');
+  expect(() => parsePresets([{ name: 'A', genre: 'Drama', referenceWriters: 'Nora Ephron' }])).toThrow('must be a list of names');
+  expect(() => parsePresets({ version: 1 })).toThrow('Expected a list of presets');
+});
+
+test('finds the preset for a saved generation, falling back to the genre', () => {
+  const presets = [...listPresets(), savePreset(noir)];
+  expect(findPreset(presets, 'Thriller', presets[5].id).name).toBe('House noir');
+  expect(findPreset(presets, 'thriller').name).toBe('Thriller');
+  expect(findPreset(presets, 'Western')).toEqual(expect.objectContaining({ name: 'Western', genre: 'Western', builtIn: true }));
+});
@@ -0,0 +1,159 @@
+// AI-CoDirector — user-defined style presets for script generation.
+// A preset is a genre plus house-style controls (tone, pacing, target length, era, reference
+// writers, notes). Presets live in localStorage and move between machines as JSON files.
+
+import { saveAs } from "file-saver";
+import type { ScriptStyle } from "./api";
+
+// -------------------- Types
+export type StylePreset = {
+  id: string;
+  name: string;
+  genre: string;
+  tone?: string;
+  pacing?: string;
+  /** Free text, e.g. "5 pages" or "90 seconds" */
+  targetLength?: string;
+  era?: string;
+  referenceWriters?: string[];
+  notes?: string;
+  /** Shipped with the app; can be duplicated but not edited or deleted */
+  builtIn?: boolean;
+  updatedAt?: number;
+};
+
+export const PACING = ['slow-burn', 'measured', 'brisk', 'breakneck'] as const;
+export const TONE_SUGGESTIONS = ['grounded', 'bleak', 'wry', 'warm', 'tense', 'whimsical', 'melancholic', 'satirical'];
+
+export const BUILT_IN_PRESETS: StylePreset[] = ['Drama', 'Thriller', 'Comedy', 'Action', 'Romance']
+  .map((genre) => ({ id: `builtin:${genre.toLowerCase()}`, name: genre, genre, builtIn: true }));
+
+const STORAGE_KEY = 'ai_codirector_presets';
+const FILE_VERSION = 1;
+
+// -------------------- Storage
+export function loadPresets(): StylePreset[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parsePresets(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Throws when storage is full or blocked, so callers never report an unsaved preset as saved. */
+function storePresets(presets: StylePreset[]) {
+  try { window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets)); }
+  catch { throw new Error('Browser storage is full or blocked'); }
+}
+
+/** Built-ins first, then the user's presets by name. */
+export function listPresets(): StylePreset[] {
+  return [...BUILT_IN_PRESETS, ...loadPresets().sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+let seq = 0;
+const newId = () => `preset-${Date.now().toString(36)}-${++seq}`;
+
+/** Create or update a user preset; built-ins are saved as a new copy. Returns the stored preset. */
+export function savePreset(preset: StylePreset): StylePreset {
+  const saved = clean({ ...preset, id: preset.builtIn || !preset.id ? newId() : preset.id, builtIn: undefined, updatedAt: Date.now() });
+  const rest = loadPresets().filter((p) => p.id !== saved.id);
+  storePresets([...rest, saved]);
+  return saved;
+}
+
+export function deletePreset(id: string) {
+  storePresets(loadPresets().filter((p) => p.id !== id));
+}
+
+/** The preset matching a stored id, else the first one for the genre, else a bare preset for it. */
+export function findPreset(presets: StylePreset[], genre: string, id?: string): StylePreset {
+  return presets.find((p) => p.id === id)
+    ?? presets.find((p) => p.genre.toLowerCase() === genre.toLowerCase())
+    ?? { id: `genre:${genre}`, name: genre, genre, builtIn: true };
+}
+
+// -------------------- Request fields
+const trimmed = (s?: string) => s?.trim() || undefined;
+
+export function styleFields(preset: StylePreset): ScriptStyle | undefined {
+  const writers = preset.referenceWriters?.map((w) => w.trim()).filter(Boolean);
+  const style: ScriptStyle = {
+    tone: trimmed(preset.tone),
+    pacing: trimmed(preset.pacing),
+    target_length: trimmed(preset.targetLength),
+    era: trimmed(preset.era),
+    reference_writers: writers?.length ? writers : undefined,
+    style_notes: trimmed(preset.notes),
+  };
+  const set = Object.entries(style).filter(([, v]) => v !== undefined);
+  return set.length ? Object.fromEntries(set) : undefined;
+}
+
+/** One-line summary for pickers, e.g. "Thriller · tense · brisk · 1970s". */
+export function describePreset(preset: StylePreset): string {
+  return [preset.genre, preset.tone, preset.pacing, preset.targetLength, preset.era].map(trimmed).filter(Boolean).join(' · ');
+}
+
+// -------------------- Import / export
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function clean(p: StylePreset): StylePreset {
+  const writers = p.referenceWriters?.map((w) => w.trim()).filter(Boolean);
+  const out = { ...p, name: p.name.trim(), genre: p.genre.trim(), referenceWriters: writers?.length ? writers : undefined };
+  for (const k of Object.keys(out) as (keyof StylePreset)[]) if (out[k] === undefined || out[k] === '') delete out[k];
+  return out;
+}
+
+/** Validate presets from storage or an imported file; throws with a readable message on bad input. */
+export function parsePresets(data: unknown): StylePreset[] {
+  const list = isObject(data) ? data.presets : data;
+  if (!Array.isArray(list)) throw new Error('Expected a list of presets');
+  return list.map((item, i) => {
+    const at = `Preset ${i + 1}`;
+    if (!isObject(item)) throw new Error(`${at} is not an object`);
+    const str = (key: string) => {
+      const v = item[key];
+      if (v === undefined || v === null) return undefined;
+      if (typeof v !== 'string') throw new Error(`${at}: "${key}" must be text`);
+      return v;
+    };
+    const name = str('name')?.trim(); const genre = str('genre')?.trim();
+    if (!name) throw new Error(`${at} has no name`);
+    if (!genre) throw new Error(`${at} ("${name}") has no genre`);
+    const writers = item.referenceWriters;
+    if (writers !== undefined && !(Array.isArray(writers) && writers.every((w) => typeof w === 'string'))) throw new Error(`${at}: "referenceWriters" must be a list of names`);
+    return clean({
+      id: str('id') || newId(), name, genre,
+      tone: str('tone'), pacing: str('pacing'), targetLength: str('targetLength'), era: str('era'),
+      referenceWriters: writers as string[] | undefined, notes: str('notes'),
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : undefined,
+    });
+  });
+}
+
+export function presetsToJson(presets: StylePreset[]): string {
+  const own = presets.filter((p) => !p.builtIn).map(({ builtIn, ...p }) => p);
+  return JSON.stringify({ version: FILE_VERSION, presets: own }, null, 2);
+}
+
+/** Merge presets from an exported file: a preset with the same name replaces the stored one. */
+export function importPresets(json: string): StylePreset[] {
+  let data: unknown;
+  try { data = JSON.parse(json); } catch { throw new Error('This file is not valid JSON'); }
+  const incoming = parsePresets(data);
+  const byName = (n: string) => n.toLowerCase();
+  const names = new Set(incoming.map((p) => byName(p.name)));
+  const kept = loadPresets().filter((p) => !names.has(byName(p.name)));
+  const ids = new Set(kept.map((p) => p.id));
+  const added = incoming.map((p) => ({ ...p, id: ids.has(p.id) ? newId() : p.id, updatedAt: p.updatedAt ?? Date.now() }));
+  storePresets([...kept, ...added]);
+  return added;
+}
+
+export function downloadPresets(presets: StylePreset[]) {
+  saveAs(new Blob([presetsToJson(presets)], { type: 'application/json' }), 'ai-codirector-presets.json');
+}
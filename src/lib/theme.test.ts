@@ -0,0 +1,57 @@
+import { contrastRatio, nextTheme, storedTheme, storeTheme, systemTheme, THEME_ORDER, THEMES, themeVars, Token, TOKENS } from './theme';
+
+const TEXT: Token[] = ['fg', 'soft', 'muted', 'faint'];
+const BACKGROUNDS: Token[] = ['canvas', 'canvas-2', 'chrome', 'surface', 'panel', 'well', 'field', 'raised', 'tint', 'popover'];
+
+const mockMedia = (matching: string[]) => {
+  window.matchMedia = ((q: string) => ({ matches: matching.includes(q), media: q })) as unknown as typeof window.matchMedia;
+};
+
+const { matchMedia } = window;
+afterEach(() => { window.localStorage.clear(); window.matchMedia = matchMedia; });
+
+test('every theme defines every token', () => {
+  for (const name of THEME_ORDER) {
+    expect(Object.keys(THEMES[name].colors).sort()).toEqual([...TOKENS].sort());
+    expect(themeVars(name)['--cd-accent']).toBe(THEMES[name].colors.accent);
+  }
+  expect(themeVars('teleprompter')).toMatchObject({ '--cd-prompt-mirror': '-1', '--cd-prompt-zoom': '1.75' });
+  expect(themeVars('dark')).toMatchObject({ '--cd-prompt-mirror': '1', '--cd-font-scale': '1' });
+});
+
+test.each(['contrast', 'teleprompter'] as const)('%s theme text meets WCAG AA on every background', (name) => {
+  const c = THEMES[name].colors;
+  const failing = TEXT.flatMap((fg) => BACKGROUNDS.filter((bg) => contrastRatio(c[fg], c[bg]) < 4.5).map((bg) => `${fg} on ${bg}`));
+  expect(failing).toEqual([]);
+  expect(contrastRatio(c['on-accent'], c.accent)).toBeGreaterThanOrEqual(4.5);
+  expect(contrastRatio(c['on-selected'], c.selected)).toBeGreaterThanOrEqual(4.5);
+  expect(contrastRatio(c.fg, c.selected)).toBeGreaterThanOrEqual(4.5);
+});
+
+test('high-contrast borders and tracks are visible against the page (3:1)', () => {
+  const c = THEMES.contrast.colors;
+  expect(contrastRatio(c.line, c.canvas)).toBeGreaterThanOrEqual(3);
+  expect(contrastRatio(c.track, c.canvas)).toBeGreaterThanOrEqual(3);
+  expect(contrastRatio('#ffffff', '#000000')).toBeCloseTo(21);
+});
+
+test('follows the system until a theme is chosen', () => {
+  mockMedia(['(prefers-color-scheme: dark)']);
+  expect(systemTheme()).toBe('dark');
+  mockMedia([]);
+  expect(systemTheme()).toBe('light');
+  mockMedia(['(prefers-color-scheme: dark)', '(prefers-contrast: more)']);
+  expect(systemTheme()).toBe('contrast');
+
+  expect(storedTheme()).toBeNull();
+  storeTheme('teleprompter');
+  expect(storedTheme()).toBe('teleprompter');
+  storeTheme(null);
+  expect(storedTheme()).toBeNull();
+  window.localStorage.setItem('ai_codirector_theme', 'sepia');
+  expect(storedTheme()).toBeNull();
+});
+
+test('Ctrl/Cmd+T cycles through every theme', () => {
+  expect(THEME_ORDER.map(nextTheme)).toEqual(['light', 'contrast', 'teleprompter', 'dark']);
+});
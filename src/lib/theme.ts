@@ -0,0 +1,146 @@
+// AI-CoDirector — design tokens for the app themes.
+// - Each theme maps the same semantic tokens (canvas, surface, fg, accent…) to colors; ThemeProvider
+//   exposes them as --cd-* CSS variables and tailwind.config.js maps them to utility classes
+//   (bg-surface, text-muted, border-line…), so a new theme is one entry here
+// - "contrast" meets WCAG AA for every text/background pair; "teleprompter" adds large type and
+//   mirrored script text for reading through beam-splitter glass
+// - With no stored choice, the theme follows the system (prefers-contrast, prefers-color-scheme)
+
+// -------------------- Types
+export type ThemeName = 'dark' | 'light' | 'contrast' | 'teleprompter';
+
+export const TOKENS = [
+  'canvas', 'canvas-2', 'chrome', 'surface', 'panel', 'well', 'field', 'raised', 'tint', 'selected', 'on-selected', 'popover',
+  'line', 'track', 'fg', 'soft', 'muted', 'faint', 'accent', 'accent-2', 'on-accent', 'ring',
+] as const;
+export type Token = typeof TOKENS[number];
+
+export type ThemeDef = {
+  label: string;
+  scheme: 'dark' | 'light';
+  colors: Record<Token, string>;
+  /** Multiplies the root font size */
+  fontScale?: number;
+  /** Script text in the Teleprompter panel */
+  prompt?: { zoom: number; mirror: boolean };
+};
+
+// -------------------- Themes
+export const THEMES: Record<ThemeName, ThemeDef> = {
+  dark: {
+    label: 'Dark',
+    scheme: 'dark',
+    colors: {
+      canvas: '#07060a', 'canvas-2': '#0f0816', chrome: 'rgb(0 0 0 / 0.3)',
+      surface: 'rgb(255 255 255 / 0.03)', panel: 'rgb(0 0 0 / 0.4)', well: 'rgb(0 0 0 / 0.8)', field: 'rgb(0 0 0 / 0.6)',
+      raised: 'rgb(255 255 255 / 0.05)', tint: 'rgb(255 255 255 / 0.05)', selected: 'rgb(255 255 255 / 0.1)', 'on-selected': '#ffffff', popover: '#0b0711',
+      line: 'rgb(255 255 255 / 0.08)', track: 'rgb(255 255 255 / 0.1)',
+      fg: '#ffffff', soft: '#f3f4f6', muted: '#d1d5db', faint: '#9ca3af',
+      accent: '#9333ea', 'accent-2': '#f59e0b', 'on-accent': '#000000', ring: '#a855f7',
+    },
+  },
+  light: {
+    label: 'Light',
+    scheme: 'light',
+    colors: {
+      canvas: '#f9fafb', 'canvas-2': '#ffffff', chrome: 'rgb(255 255 255 / 0.8)',
+      surface: '#ffffff', panel: 'rgb(255 255 255 / 0.5)', well: '#f9fafb', field: '#ffffff',
+      raised: '#ffffff', tint: '#f9fafb', selected: '#f0fdfa', 'on-selected': '#0d9488', popover: '#ffffff',
+      line: '#e5e7eb', track: '#e5e7eb',
+      fg: '#111827', soft: '#1f2937', muted: '#4b5563', faint: '#6b7280',
+      accent: '#0d9488', 'accent-2': '#0d9488', 'on-accent': '#ffffff', ring: '#14b8a6',
+    },
+  },
+  contrast: {
+    label: 'High contrast',
+    scheme: 'dark',
+    colors: {
+      canvas: '#000000', 'canvas-2': '#000000', chrome: '#000000',
+      surface: '#000000', panel: '#000000', well: '#000000', field: '#000000',
+      raised: '#000000', tint: '#1a1a1a', selected: '#333333', 'on-selected': '#ffff00', popover: '#000000',
+      line: '#ffffff', track: '#8a8a8a',
+      fg: '#ffffff', soft: '#ffffff', muted: '#ffffff', faint: '#e0e0e0',
+      accent: '#ffff00', 'accent-2': '#ffff00', 'on-accent': '#000000', ring: '#00ffff',
+    },
+  },
+  teleprompter: {
+    label: 'Teleprompter',
+    scheme: 'dark',
+    colors: {
+      canvas: '#000000', 'canvas-2': '#000000', chrome: '#000000',
+      surface: '#0a0a0a', panel: '#000000', well: '#000000', field: '#111111',
+      raised: '#141414', tint: '#1f1f1f', selected: '#262626', 'on-selected': '#facc15', popover: '#0a0a0a',
+      line: '#3f3f3f', track: '#3f3f3f',
+      fg: '#ffffff', soft: '#f5f5f5', muted: '#d4d4d4', faint: '#a3a3a3',
+      accent: '#facc15', 'accent-2': '#facc15', 'on-accent': '#000000', ring: '#facc15',
+    },
+    fontScale: 1.125,
+    prompt: { zoom: 1.75, mirror: true },
+  },
+};
+
+/** Order of the Ctrl/Cmd+T cycle and the theme picker. */
+export const THEME_ORDER: ThemeName[] = ['dark', 'light', 'contrast', 'teleprompter'];
+
+export function isThemeName(v: unknown): v is ThemeName {
+  return typeof v === 'string' && v in THEMES;
+}
+
+export function nextTheme(theme: ThemeName): ThemeName {
+  return THEME_ORDER[(THEME_ORDER.indexOf(theme) + 1) % THEME_ORDER.length];
+}
+
+/** CSS custom properties for a theme, for a style attribute or documentElement.style. */
+export function themeVars(theme: ThemeName): Record<string, string> {
+  const def = THEMES[theme];
+  const vars: Record<string, string> = {};
+  for (const token of TOKENS) vars[`--cd-${token}`] = def.colors[token];
+  vars['--cd-font-scale'] = String(def.fontScale ?? 1);
+  vars['--cd-prompt-zoom'] = String(def.prompt?.zoom ?? 1);
+  vars['--cd-prompt-mirror'] = def.prompt?.mirror ? '-1' : '1';
+  return vars;
+}
+
+// -------------------- Preference
+const STORAGE_KEY = 'ai_codirector_theme';
+
+export function storedTheme(): ThemeName | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isThemeName(stored) ? stored : null;
+  } catch { return null; }
+}
+
+/** Pass null to go back to following the system. */
+export function storeTheme(theme: ThemeName | null) {
+  try {
+    if (theme) window.localStorage.setItem(STORAGE_KEY, theme);
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch {}
+}
+
+export const SYSTEM_QUERIES = ['(prefers-contrast: more)', '(forced-colors: active)', '(prefers-color-scheme: dark)'];
+
+export function systemTheme(): ThemeName {
+  const matches = (q: string) => typeof window.matchMedia === 'function' && window.matchMedia(q).matches;
+  if (matches('(prefers-contrast: more)') || matches('(forced-colors: active)')) return 'contrast';
+  if (typeof window.matchMedia !== 'function') return 'dark';
+  return matches('(prefers-color-scheme: dark)') ? 'dark' : 'light';
+}
+
+// -------------------- Contrast
+function luminance(hex: string): number {
+  const m = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!m) throw new Error(`Contrast needs an opaque #rrggbb color, got ${hex}`);
+  const [r, g, b] = [0, 2, 4].map((i) => {
+    const c = parseInt(m[1].slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG 2 contrast ratio between two opaque colors (1 to 21). */
+export function contrastRatio(a: string, b: string): number {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
@@ -1,19 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, UploadCloud, X, Loader2, CheckCircle, Sparkles, XCircle, Mic } from 'lucide-react';
+import { EMOTION_COLORS } from '../lib/emotions';
 
 const VIDEO_API_URL = "https://arjun9036-multimodal-emotion-backend.hf.space/predict";
 
-const EMOTION_COLORS = {
-  anger: 'bg-red-500',
-  disgust: 'bg-purple-500',
-  fear: 'bg-orange-500',
-  joy: 'bg-yellow-400',
-  neutral: 'bg-gray-400',
-  sadness: 'bg-blue-400',
-  surprise: 'bg-pink-400',
-};
-
 const VideoAnalyzer = () => {
   const navigate = useNavigate();
   const [file, setFile] = useState(null);
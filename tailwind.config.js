@@ -1,10 +1,18 @@
+// Semantic colors come from the active theme (src/lib/theme.ts) as --cd-* CSS variables
+const tokens = [
+  'canvas', 'canvas-2', 'chrome', 'surface', 'panel', 'well', 'field', 'raised', 'tint', 'selected', 'on-selected', 'popover',
+  'line', 'track', 'fg', 'soft', 'muted', 'faint', 'accent', 'accent-2', 'on-accent', 'ring',
+];
+
 /** @type {import('tailwindcss').Config} */
 module.exports = {
   content: [
     "./src/**/*.{js,jsx,ts,tsx}",
   ],
   theme: {
-    extend: {},
+    extend: {
+      colors: Object.fromEntries(tokens.map((t) => [t, `var(--cd-${t})`])),
+    },
   },
   plugins: [],
-}
\ No newline at end of file
+}